@@ -0,0 +1,197 @@
+import path from "path";
+import { CONFIG_FILE, ConfigResolver, SEVERITY_ORDER, applyIgnoreRules, createConfigResolver, scanOptionsFor } from "./config";
+import { Confidence } from "./detectors";
+import { EntropyThresholds } from "./entropy";
+import { matchesGlob } from "./glob";
+import { EnvScanResult, ScanOptions, Severity, mergeResults, redactValue } from "./index";
+import { CustomRule } from "./rules";
+import { ScanStats, createScanStats, streamScan } from "./scanner";
+
+/**
+ * One reported location: an env read (`usage`) or a hardcoded value that should
+ * move into an env var (`suggestion`).
+ */
+export interface Finding {
+  type: "usage" | "suggestion";
+  variable: string;
+  /** Absolute path. */
+  file: string;
+  line: number;
+  column: number;
+  /** The source line, with secrets redacted. */
+  snippet: string;
+  /** Usage is always LOW. */
+  severity: Severity;
+  rule?: string;
+  confidence?: Confidence;
+  entropy?: number;
+  /** Matched value with everything but a short prefix masked. */
+  redactedValue?: string;
+}
+
+export interface EnvGuardianOptions {
+  /** Only scan files matching one of these globs (relative to the scan root). */
+  include?: string[];
+  /** Skip files matching any of these globs. */
+  exclude?: string[];
+  /** Drop findings below this severity (default: the config's `priority`). */
+  minSeverity?: Severity;
+  /** Report env reads as well as suggestions (default: true). */
+  includeUsage?: boolean;
+  /** Added to the rules from the config file. */
+  rules?: CustomRule[];
+  /** Added to the config's disabled rules. */
+  disabledRules?: string[];
+  /** Overrides the config's entropy thresholds. */
+  entropy?: Partial<EntropyThresholds>;
+  /**
+   * Config file to apply to every file, or false for none (default: each file's
+   * nearest .envscanconfig.json, merged with those in parent directories).
+   */
+  configPath?: string | false;
+  /** See scanForEnvAsync(). */
+  workers?: number;
+  cache?: string | false;
+  maxFileSize?: number;
+  /** Called for every finding as soon as its file has been scanned. */
+  onFinding?: (finding: Finding) => void;
+}
+
+export interface EnvGuardianScan {
+  findings: Finding[];
+  /** The same findings grouped by variable, as used by the report functions. */
+  results: EnvScanResult;
+  stats: ScanStats;
+}
+
+interface ResolvedScan {
+  configs: ConfigResolver;
+  /** Options of the scan root's config. */
+  scanOptions: ScanOptions;
+  optionsFor: (file: string) => ScanOptions;
+  minSeverity?: Severity;
+}
+
+/**
+ * Merges the config files with the options passed in code; code wins.
+ */
+function resolveOptions(root: string, options: EnvGuardianOptions): ResolvedScan {
+  const configs = createConfigResolver({ configFile: options.configPath, pluginRoot: root });
+  const optionsFor = scanOptionsFor(configs, (fromConfig) => ({
+    ...fromConfig,
+    entropy: { ...fromConfig.entropy, ...options.entropy },
+    rules: [...(fromConfig.rules ?? []), ...(options.rules ?? [])],
+    disabledRules: [...(fromConfig.disabledRules ?? []), ...(options.disabledRules ?? [])],
+    maxFileSize: options.maxFileSize,
+  }));
+  const rootConfig = configs.forDirectory(root);
+
+  return {
+    configs,
+    scanOptions: optionsFor(path.join(root, CONFIG_FILE)),
+    optionsFor,
+    minSeverity: options.minSeverity ?? rootConfig.config.priority,
+  };
+}
+
+/**
+ * Flattens scan results into findings, usage first.
+ */
+export function toFindings(results: EnvScanResult): Finding[] {
+  const findings: Finding[] = [];
+  for (const [variable, entry] of Object.entries(results)) {
+    for (const u of entry.usage) findings.push({ type: "usage", variable, ...u, severity: "LOW" });
+    for (const s of entry.suggested) {
+      findings.push({
+        type: "suggestion",
+        variable,
+        file: s.file,
+        line: s.line,
+        column: s.column,
+        snippet: s.snippet,
+        severity: s.severity ?? "LOW",
+        rule: s.rule,
+        confidence: s.confidence,
+        entropy: s.entropy,
+        redactedValue: s.value !== undefined ? redactValue(s.value) : undefined,
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Scans file by file, yielding each file's results after ignore rules and
+ * severity filtering.
+ */
+async function* scanFiles(
+  root: string,
+  options: EnvGuardianOptions,
+  stats: ScanStats
+): AsyncGenerator<EnvScanResult> {
+  const absRoot = path.resolve(root);
+  const { configs, scanOptions, optionsFor, minSeverity } = resolveOptions(absRoot, options);
+  const inScope = (file: string) => {
+    const relative = path.relative(absRoot, file);
+    if (options.include && !matchesGlob(relative, options.include)) return false;
+    return !options.exclude || !matchesGlob(relative, options.exclude);
+  };
+  const visible = (severity: Severity | undefined) =>
+    !minSeverity || SEVERITY_ORDER[severity ?? "LOW"] >= SEVERITY_ORDER[minSeverity];
+
+  for await (const { result } of streamScan(absRoot, {
+    ...scanOptions,
+    workers: options.workers,
+    cache: options.cache,
+    stats,
+    filter: inScope,
+    optionsFor,
+  })) {
+    const kept: EnvScanResult = {};
+    for (const [variable, entry] of Object.entries(applyIgnoreRules(result, configs))) {
+      const usage = options.includeUsage === false || !visible("LOW") ? [] : entry.usage;
+      const suggested = entry.suggested.filter((s) => visible(s.severity));
+      const suppressed = entry.suppressed?.filter((s) => visible(s.severity)) ?? [];
+      if (usage.length > 0 || suggested.length > 0 || suppressed.length > 0) {
+        kept[variable] = { usage, suggested, ...(suppressed.length > 0 && { suppressed }) };
+      }
+    }
+    if (Object.keys(kept).length > 0) yield kept;
+  }
+}
+
+/**
+ * Streams findings as files are scanned, e.g. `for await (const f of scanFindings("."))`.
+ */
+export async function* scanFindings(root: string, options: EnvGuardianOptions = {}): AsyncGenerator<Finding> {
+  for await (const result of scanFiles(root, options, createScanStats())) {
+    for (const finding of toFindings(result)) {
+      options.onFinding?.(finding);
+      yield finding;
+    }
+  }
+}
+
+/**
+ * Scans a directory with the same config, ignore rules and severity filtering as the CLI.
+ */
+export async function scan(root: string, options: EnvGuardianOptions = {}): Promise<EnvGuardianScan> {
+  const stats = createScanStats();
+  const perFile: EnvScanResult[] = [];
+  for await (const result of scanFiles(root, options, stats)) {
+    perFile.push(result);
+    if (options.onFinding) toFindings(result).forEach(options.onFinding);
+  }
+
+  // Files finish in any order; merge by path so results are stable between runs
+  const fileOf = (r: EnvScanResult) => {
+    const entry = Object.values(r)[0];
+    return entry.usage[0]?.file ?? entry.suggested[0]?.file ?? entry.suppressed?.[0]?.file ?? "";
+  };
+  perFile.sort((a, b) => (fileOf(a) < fileOf(b) ? -1 : fileOf(a) > fileOf(b) ? 1 : 0));
+
+  const results: EnvScanResult = {};
+  for (const result of perFile) mergeResults(results, result);
+
+  return { findings: toFindings(results), results, stats };
+}
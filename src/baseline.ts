@@ -0,0 +1,161 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { EnvScanResult, EnvScanResultEntry, Severity } from "./index";
+
+export const BASELINE_FILE = ".envguardian-baseline.json";
+
+export interface BaselineEntry {
+  fingerprint: string;
+  variable: string;
+  file: string;
+  rule: string;
+  severity?: Severity;
+  valueHash?: string;
+}
+
+export interface Baseline {
+  version: 1 | 2;
+  generatedAt: string;
+  /**
+   * Random key of the value hashes, so they can't be checked against guessed values
+   * without the file. Missing in version 1 baselines, which used plain SHA-256.
+   */
+  salt?: string;
+  findings: BaselineEntry[];
+}
+
+export interface BaselineComparison {
+  /** Findings hidden because they are already in the baseline. */
+  suppressed: number;
+  /** Baseline entries that no longer match any finding and can be pruned. */
+  stale: BaselineEntry[];
+}
+
+/**
+ * Hashes a value so the baseline never stores the secret itself.
+ */
+function hashValue(value: string, salt: string | undefined): string {
+  if (salt === undefined) return "sha256:" + crypto.createHash("sha256").update(value).digest("hex");
+  return "hmac-sha256:" + crypto.createHmac("sha256", salt).update(value).digest("hex");
+}
+
+/**
+ * Builds the baseline entry of a suggestion. Line numbers are left out on purpose
+ * so unrelated edits in the same file don't invalidate the baseline, and paths are
+ * relative to the scanned directory so it matches wherever the scan is run from.
+ */
+function toBaselineEntry(
+  variable: string,
+  finding: EnvScanResultEntry["suggested"][number],
+  root: string,
+  salt: string | undefined
+): BaselineEntry {
+  const file = path.relative(root, path.resolve(finding.file)).split(path.sep).join("/");
+  const rule = finding.rule ?? "sensitive-heuristic";
+  const valueHash = finding.value !== undefined ? hashValue(finding.value, salt) : undefined;
+  const fingerprint = crypto
+    .createHash("sha256")
+    .update([variable, file, rule, valueHash ?? ""].join("\0"))
+    .digest("hex");
+
+  return { fingerprint, variable, file, rule, severity: finding.severity, valueHash };
+}
+
+/**
+ * Creates a baseline from every suggestion in the results of a scan of `root`.
+ */
+export function createBaseline(results: EnvScanResult, root: string = process.cwd()): Baseline {
+  const salt = crypto.randomBytes(16).toString("hex");
+  const findings = new Map<string, BaselineEntry>();
+  for (const [variable, entry] of Object.entries(results)) {
+    for (const finding of entry.suggested) {
+      const baselineEntry = toBaselineEntry(variable, finding, root, salt);
+      findings.set(baselineEntry.fingerprint, baselineEntry);
+    }
+  }
+
+  return {
+    version: 2,
+    generatedAt: new Date().toISOString(),
+    salt,
+    findings: [...findings.values()].sort(
+      (a, b) => a.file.localeCompare(b.file) || a.variable.localeCompare(b.variable)
+    ),
+  };
+}
+
+export function loadBaseline(file: string): Baseline {
+  if (!fs.existsSync(file)) {
+    throw new Error(`${file} not found. Create it with 'env-guardian baseline'`);
+  }
+
+  let baseline;
+  try {
+    baseline = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (e) {
+    throw new Error(`${file} is not valid JSON: ${e instanceof Error ? e.message : e}`);
+  }
+  if (
+    !baseline ||
+    ![1, 2].includes(baseline.version) ||
+    !Array.isArray(baseline.findings) ||
+    (baseline.version === 2 && typeof baseline.salt !== "string")
+  ) {
+    throw new Error(`${file} is not a valid env-guardian baseline. Recreate it with 'env-guardian baseline'`);
+  }
+  return baseline;
+}
+
+export function saveBaseline(file: string, baseline: Baseline) {
+  fs.writeFileSync(file, JSON.stringify(baseline, null, 2) + "\n");
+}
+
+/**
+ * Hides suggestions already recorded in the baseline and flags baseline entries
+ * that no longer match anything as stale. `root` is the directory that was scanned.
+ */
+export function applyBaseline(
+  results: EnvScanResult,
+  baseline: Baseline,
+  root: string = process.cwd()
+): { results: EnvScanResult; comparison: BaselineComparison } {
+  const known = new Set(baseline.findings.map((f) => f.fingerprint));
+  const seen = new Set<string>();
+  const filtered: EnvScanResult = {};
+  let suppressed = 0;
+
+  for (const [variable, entry] of Object.entries(results)) {
+    const suggested = entry.suggested.filter((finding) => {
+      const { fingerprint } = toBaselineEntry(variable, finding, root, baseline.salt);
+      if (!known.has(fingerprint)) return true;
+      seen.add(fingerprint);
+      suppressed++;
+      return false;
+    });
+
+    if (entry.usage.length > 0 || suggested.length > 0 || entry.suppressed?.length) {
+      filtered[variable] = { ...entry, suggested };
+    }
+  }
+
+  return {
+    results: filtered,
+    comparison: {
+      suppressed,
+      stale: baseline.findings.filter((f) => !seen.has(f.fingerprint)),
+    },
+  };
+}
+
+/**
+ * Removes stale entries from a baseline.
+ */
+export function pruneBaseline(baseline: Baseline, stale: BaselineEntry[]): Baseline {
+  const staleFingerprints = new Set(stale.map((f) => f.fingerprint));
+  return {
+    ...baseline,
+    generatedAt: new Date().toISOString(),
+    findings: baseline.findings.filter((f) => !staleFingerprints.has(f.fingerprint)),
+  };
+}
@@ -0,0 +1,105 @@
+import { detectSecret } from "./detectors";
+import { stripDotenvValues } from "./dotenv";
+import { scoreEntropy } from "./entropy";
+import { EnvLocation, EnvScanResult } from "./index";
+
+export const EXAMPLE_ENV_FILE = ".env.example";
+
+/**
+ * Variables provided by the OS, shell or runtime, never expected in an env file.
+ */
+const RUNTIME_VARIABLES = new Set([
+  "NODE_ENV",
+  "HOME",
+  "PATH",
+  "PWD",
+  "USER",
+  "SHELL",
+  "TMPDIR",
+  "HOSTNAME",
+  "LANG",
+  "CI",
+]);
+
+export interface EnvCheckResult {
+  /** Read in code but not defined in any env file. */
+  missing: { name: string; usage: EnvLocation[] }[];
+  /** Read in code but not documented in .env.example. */
+  undocumented: { name: string; usage: EnvLocation[] }[];
+  /** Defined in an env file but never read in code. */
+  unused: { name: string; files: string[] }[];
+  /** .env.example entries holding what looks like a real value. */
+  exampleValues: { name: string; reason: string }[];
+}
+
+/**
+ * Whether an example value is a real credential rather than a placeholder.
+ */
+function realValueReason(name: string, value: string): string | undefined {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  if (/^(<.*>|\$\{.*\}|x+|\*+|\.{3}|changeme|change-me|example|placeholder|your[-_ ].*|todo|tbd|none|null|true|false|\d{1,5})$/i.test(trimmed)) {
+    return undefined;
+  }
+
+  const provider = detectSecret(trimmed);
+  if (provider) return `looks like a ${provider.name} (${provider.id})`;
+  if (scoreEntropy(trimmed)?.high) return "high-entropy value";
+  if (/(SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL|API_?KEY)/i.test(name) && trimmed.length >= 8) {
+    return "sensitive variable with a non-placeholder value";
+  }
+  return undefined;
+}
+
+/**
+ * Compares env vars read in code against the ones defined in env files.
+ * `envFiles` maps file names (including .env.example, if present) to their variables.
+ */
+export function checkEnv(results: EnvScanResult, envFiles: Record<string, Record<string, string>>): EnvCheckResult {
+  const example = envFiles[EXAMPLE_ENV_FILE];
+  const definedIn = new Map<string, string[]>();
+  for (const [file, vars] of Object.entries(envFiles)) {
+    for (const name of Object.keys(vars)) definedIn.set(name, [...(definedIn.get(name) ?? []), file]);
+  }
+
+  const used = Object.entries(results).filter(
+    ([name, entry]) => entry.usage.length > 0 && !RUNTIME_VARIABLES.has(name)
+  );
+  const usedNames = new Set(used.map(([name]) => name));
+
+  const check: EnvCheckResult = { missing: [], undocumented: [], unused: [], exampleValues: [] };
+
+  for (const [name, entry] of used) {
+    const files = (definedIn.get(name) ?? []).filter((f) => f !== EXAMPLE_ENV_FILE);
+    if (files.length === 0) check.missing.push({ name, usage: entry.usage });
+    if (example && !(name in example)) check.undocumented.push({ name, usage: entry.usage });
+  }
+
+  for (const [name, files] of definedIn) {
+    if (!usedNames.has(name)) check.unused.push({ name, files });
+  }
+
+  for (const [name, value] of Object.entries(example ?? {})) {
+    const reason = realValueReason(name, value);
+    if (reason) check.exampleValues.push({ name, reason });
+  }
+
+  for (const list of [check.missing, check.undocumented, check.unused, check.exampleValues]) {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+  }
+  return check;
+}
+
+/**
+ * Builds a .env.example from an env file: comments and order are kept, values removed.
+ * Variables read in code but missing from the source file are appended.
+ */
+export function generateExample(envSource: string, extraNames: string[]): string {
+  const lines = stripDotenvValues(envSource).split(/\r?\n/);
+  while (lines.length > 0 && lines[lines.length - 1] === "") lines.pop();
+
+  if (extraNames.length > 0) {
+    lines.push("", "# Read in code but not defined in .env", ...extraNames.map((name) => `${name}=`));
+  }
+  return lines.join("\n") + "\n";
+}
@@ -1,55 +1,122 @@
 #!/usr/bin/env node
 import { Command } from "commander";
 import chalk from "chalk";
+import { spawn } from "child_process";
 import fs from "fs";
+import os from "os";
 import path from "path";
 import readline from "readline";
-import { scanForEnv, EnvScanResult } from "./index";
+import {
+  DEFAULT_MAX_FILE_SIZE,
+  getRules,
+  isEnvFile,
+  isScannableFile,
+  mergeResults,
+  redactValue,
+  scanSource,
+  EnvLocation,
+  EnvScanResult,
+  ScanOptions,
+} from "./index";
+import {
+  REPORT_FORMATS,
+  ReportFormat,
+  ReportOptions,
+  toHtmlReport,
+  toJsonReport,
+  toMarkdownReport,
+  toSarifReport,
+} from "./report";
+import {
+  BASELINE_FILE,
+  applyBaseline,
+  createBaseline,
+  loadBaseline,
+  pruneBaseline,
+  saveBaseline,
+} from "./baseline";
+import { GitFile, getChangedFilesSince, getRepoRoot, getStagedFiles, installPreCommitHook } from "./git";
+import { scanGitHistory } from "./history";
+import { ScanStats, createScanStats, scanForEnvAsync } from "./scanner";
+import { WatchFinding, watchScan } from "./watch";
+import {
+  CONFIG_FILE,
+  ConfigResolver,
+  SEVERITY_ORDER,
+  ScanConfig,
+  applyIgnoreRules,
+  createConfigResolver,
+  filterBySeverity,
+  IgnoreEntry,
+  IgnoreRule,
+  findConfigFiles,
+  highestSeverity,
+  isExpired,
+  isIgnored,
+  loadConfig,
+  parseExpiry,
+  parseSeverity,
+  saveConfig,
+  scanOptionsFor,
+  validateConfigFile,
+} from "./config";
+import { applyEdits, editsByFile, planFixes, renderFixDiff } from "./fix";
+import { EXAMPLE_ENV_FILE, checkEnv, generateExample } from "./check";
+import {
+  ENCRYPTED_SUFFIX,
+  EncryptionKey,
+  KEY_ENV_VAR,
+  KEY_FILE,
+  decryptEnv,
+  decryptedPath,
+  encryptEnv,
+  encryptedPath,
+  findEncryptedEnvFiles,
+  generateKey,
+  loadKey,
+  parseKey,
+  readEncryptedDotenv,
+  rotateKey,
+  saveKey,
+} from "./encryption";
+import { KNOWN_VALUES_MAX_FILE_SIZE, defaultKnownValueFiles, loadKnownValues, scanKnownValues } from "./leaks";
+import { ENV_SCHEMA_FILE, EnvSchema, environmentOf, loadEnvSchema, validateEnv } from "./schema";
+import { parseDotenvValues, readDotenvFile, updateDotenvFile } from "./dotenv";
 
 const program = new Command();
 
-interface ScanConfig {
-  ignore: {
-    variables: string[];
-    files: string[];
-  };
-  priority?: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
-}
-
-const CONFIG_FILE = ".envscanconfig.json";
-
 // ---------- Load/Save Config ----------
-let scanConfig: ScanConfig = { ignore: { variables: [], files: [] } };
+/**
+ * The config file in the working directory as written, for the commands that edit it.
+ * Both are loaded before each command runs, see the preAction hook below.
+ */
+let scanConfig!: ScanConfig;
+/** Configs of scanned files, merged from each file's directory upwards. */
+let configs!: ConfigResolver;
 
-function saveScanConfig() {
-  fs.writeFileSync(CONFIG_FILE, JSON.stringify(scanConfig, null, 2));
+/**
+ * Merged config of the working directory. Priority and fail-on levels come from here.
+ */
+function projectConfig(): ScanConfig {
+  return configs.forDirectory(process.cwd()).config;
 }
 
-function loadScanConfig() {
-  if (fs.existsSync(CONFIG_FILE)) {
-    scanConfig = JSON.parse(fs.readFileSync(CONFIG_FILE, "utf-8"));
-  }
+/**
+ * Scanner options of the working directory's config.
+ */
+function getScanOptions(): ScanOptions {
+  return configs.forDirectory(process.cwd()).scanOptions;
 }
-loadScanConfig();
 
 // ---------- Helpers ----------
-function isIgnored(variable: string, file: string): boolean {
-  if (variable && scanConfig.ignore.variables.includes(variable)) return true;
-  if (file) {
-    const absFile = path.resolve(file);
-    return scanConfig.ignore.files.some(
-      (ignoredFile) => path.resolve(ignoredFile) === absFile
-    );
-  }
-  return false;
-}
-
-const SEVERITY_ORDER: Record<"LOW" | "MEDIUM" | "HIGH" | "CRITICAL", number> = {
-  LOW: 1,
-  MEDIUM: 2,
-  HIGH: 3,
-  CRITICAL: 4,
-};
+/**
+ * Process exit codes, so CI can tell findings apart from a broken scan.
+ */
+const EXIT_CODES = {
+  OK: 0,
+  FINDINGS: 1,
+  ERROR: 2,
+} as const;
 
 const VALID_ENV_FILES = new Set([
   ".env",
@@ -87,19 +154,54 @@ program
       $ env-guardian scan ./dir                             ## Scans a given directory
       $ env-guardian scan ./dir --to-env                    ## Adds Suggestions to default .env
       $ env-guardian scan ./dir --to-env .env.local         ## Adds Suggestions to given .env.*
+      $ env-guardian scan ./dir --format json               ## Prints results as text (default), json, sarif, html or markdown
+      $ env-guardian scan --known-values                    ## Also finds values from .env files anywhere, dist/ included
+      $ env-guardian scan --known-values-file .env.staging  ## Takes the known values from the given env file(s)
+      $ env-guardian scan --format html --output out.html   ## Writes a self-contained, filterable HTML report
+      $ env-guardian scan ./dir --output report.sarif       ## Writes the report to a file instead of stdout
+      $ env-guardian scan ./dir --watch                     ## Re-scans changed files and prints new/resolved findings
+      $ env-guardian scan ./dir --stats                     ## Prints file counts, cache hits and timing
+      $ env-guardian scan ./dir --no-cache --workers 4      ## Re-scans every file on 4 worker threads
+      $ env-guardian scan ./dir --show-suppressed           ## Also lists findings silenced by env-guardian-ignore comments
+      $ env-guardian fix ./dir                              ## Shows a diff replacing hardcoded secrets with env lookups
+      $ env-guardian fix ./dir --write --env-file .env.local ## Applies it and moves the values into the env file
+      $ env-guardian check                                  ## Lists env vars missing from / unused in .env files
+      $ env-guardian check --generate-example               ## Writes a .env.example without values
       $ env-guardian set-priority level                     ## Scan results only display set priority and above
       $ env-guardian reset-priority                         ## Resets scan results to display all
+      $ env-guardian scan ./dir --fail-on high              ## Exits 1 if HIGH+ findings remain (2 on scan errors)
+      $ env-guardian scan --staged                          ## Only scans files staged for commit
+      $ env-guardian scan --since main                      ## Only scans files changed since a git ref
+      $ env-guardian validate                               ## Checks .env files against ${ENV_SCHEMA_FILE}
+      $ env-guardian validate .env.production               ## Checks one env file (environment from its name)
+      $ env-guardian encrypt .env                           ## Encrypts .env to .env.enc (creating ${KEY_FILE} if needed)
+      $ env-guardian decrypt .env.enc                       ## Decrypts .env.enc back to .env
+      $ env-guardian run -- npm start                       ## Runs a command with the variables of .env.enc
+      $ env-guardian rotate-key                             ## Re-encrypts every .env*.enc with a new key
+      $ env-guardian install-hook                           ## Installs a pre-commit hook running 'scan --staged'
+      $ env-guardian history                                ## Scans lines added in past commits for secrets
+      $ env-guardian history main..feature --max-commits 50 ## Limits history scans to a range / commit count
+      $ env-guardian baseline                               ## Records current findings in ${BASELINE_FILE}
+      $ env-guardian baseline --prune                       ## Drops resolved (stale) entries from the baseline
+      $ env-guardian scan ./dir --baseline                  ## Only reports findings missing from the baseline
+      $ env-guardian set-fail-on level                      ## Saves a default --fail-on level
+      $ env-guardian reset-fail-on                          ## Removes the saved --fail-on level
       $ env-guardian ignore variable                        ## Adds variable(s) to an ignore list
       $ env-guardian ignore-files path/to/file.js           ## Adds file(s) to an ignore list
-      $ env-guardian ignore-list                            ## Lists all ignored variables and files
+      $ env-guardian ignore-files "**/__tests__/**"         ## Ignores every file matching a glob
+      $ env-guardian ignore KEY --file "*.test.ts" --reason why ## Ignores a variable only in files matching a glob
+      $ env-guardian ignore KEY --reason why --expires 2025-12-31 ## Ignores a variable until a date
+      $ env-guardian ignore-list                            ## Lists all ignores, flagging expired ones
       $ env-guardian reset-ignore                           ## Resets ignore list to ignore nothing
       $ env-guardian reset-ignore -f, --force               ## Skips confirmation to reset ignore list
+      $ env-guardian config validate                        ## Checks every ${CONFIG_FILE} and the files they extend
 
     Tips:
       • Use 'scan' to analyze your project and suggest sensitive vars
       • Use '--to-env' flag to add suggested sensitive vars to a .env file
       • Use 'set-priority' to only display scan results from set priority and above
       • Use 'ignore' or 'ignore-files' to suppress false positives
+      • Add '// env-guardian-ignore-next-line <rule> -- reason' above a line to silence just that line
       • Run 'reset-ignore' to restore a clean ignore config
     `);
     process.exit(0);
@@ -127,7 +229,260 @@ program
     process.exit(0);
   });
 
+// ---------- Scanning ----------
+interface CollectOptions {
+  staged?: boolean;
+  since?: string;
+  /** false when --no-cache is given. */
+  cache?: boolean;
+  workers?: number;
+  /** Largest file to scan, in bytes. */
+  maxFileSize?: number;
+  stats?: ScanStats;
+}
+
+/**
+ * Scans the whole directory, or only staged / changed files when asked to.
+ */
+async function collectResults(root: string, options: CollectOptions = {}): Promise<EnvScanResult> {
+  const optionsFor = scanOptionsFor(configs, (fromConfig) => ({ ...fromConfig, maxFileSize: options.maxFileSize }));
+  if (!options.staged && !options.since) {
+    const { results } = await scanForEnvAsync(root, {
+      ...getScanOptions(),
+      maxFileSize: options.maxFileSize,
+      optionsFor,
+      workers: options.workers,
+      cache: options.cache === false ? false : undefined,
+      stats: options.stats,
+    });
+    return results;
+  }
+
+  const started = Date.now();
+  const inScope = (file: string) => {
+    const relative = path.relative(root, file);
+    return !relative.startsWith("..") && !path.isAbsolute(relative) && isScannableFile(relative, optionsFor(file));
+  };
+  const files: GitFile[] = options.staged
+    ? getStagedFiles(root, inScope)
+    : getChangedFilesSince(options.since as string, root, inScope);
+
+  const results: EnvScanResult = {};
+  const stats = options.stats ?? createScanStats();
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  for (const { file, content } of files) {
+    stats.files++;
+    if (Buffer.byteLength(content) > maxFileSize) {
+      stats.skippedLarge++;
+    } else if (content.includes("\0")) {
+      stats.skippedBinary++;
+    } else {
+      scanSource(file, content, results, optionsFor(file));
+      stats.scanned++;
+      stats.bytes += Buffer.byteLength(content);
+    }
+  }
+  stats.durationMs = Date.now() - started;
+  return results;
+}
+
+/**
+ * One-line summary of a scan for --stats.
+ */
+function formatStats(stats: ScanStats): string {
+  const skipped = [
+    stats.cached > 0 ? `${stats.cached} from cache` : "",
+    stats.skippedBinary > 0 ? `${stats.skippedBinary} binary skipped` : "",
+    stats.skippedLarge > 0 ? `${stats.skippedLarge} too large skipped` : "",
+  ].filter(Boolean);
+  const mb = (stats.bytes / 1024 / 1024).toFixed(1);
+  const workers = stats.workers > 0 ? `${stats.workers} worker(s)` : "the main thread";
+  return (
+    `\n📊 ${stats.files} file(s), ${stats.scanned} scanned` +
+    (skipped.length > 0 ? ` (${skipped.join(", ")})` : "") +
+    `, ${mb} MB read in ${(stats.durationMs / 1000).toFixed(2)}s on ${workers}`
+  );
+}
+
+// ---------- Reporting ----------
+/**
+ * Counts suggestions at or above the given severity.
+ */
+function countFindingsAtOrAbove(
+  results: EnvScanResult,
+  level: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL"
+): number {
+  let count = 0;
+  for (const entry of Object.values(results)) {
+    for (const s of entry.suggested) {
+      if (s.severity && SEVERITY_ORDER[s.severity] >= SEVERITY_ORDER[level]) count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Colored [SEVERITY] label.
+ */
+function severityLabel(severity: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL"): string {
+  return severity === "CRITICAL"
+    ? chalk.red(`[${severity}]`)
+    : severity === "HIGH"
+    ? chalk.hex("#FFA500")(`[${severity}]`)
+    : severity === "MEDIUM"
+    ? chalk.yellow(`[${severity}]`)
+    : chalk.green(`[${severity}]`);
+}
+
+/**
+ * Formats a location as file:line:col so editors and terminals can jump to it.
+ */
+function formatLocation(location: EnvLocation, dir: string): string {
+  return `${path.relative(dir, location.file)}:${location.line}:${location.column}`;
+}
+
+/**
+ * Report renderers for every format but the colored terminal one.
+ */
+const REPORTERS: Record<Exclude<ReportFormat, "text">, typeof toJsonReport> = {
+  json: toJsonReport,
+  sarif: toSarifReport,
+  html: toHtmlReport,
+  markdown: toMarkdownReport,
+};
+
+/**
+ * Renders the colored terminal report.
+ */
+function renderTextReport(results: EnvScanResult, dir: string, options: ReportOptions = {}): string {
+  const existing: string[] = [];
+  const suggestions: string[] = [];
+
+  for (const [key, entry] of Object.entries(results)) {
+    if (entry.usage.length > 0) {
+      existing.push(
+        chalk.green(`✔ ${key}`) +
+          ` (used in: ${entry.usage.map((u) => formatLocation(u, dir)).join(", ")})`
+      );
+    }
+
+    if (entry.suggested.length > 0) {
+      suggestions.push(
+        `${severityLabel(highestSeverity(entry))} ${chalk.yellow(key)} (found in: ${entry.suggested
+          .map((s) => formatLocation(s, dir) + (s.rule ? chalk.gray(` [${s.rule}]`) : ""))
+          .join(", ")})`
+      );
+    }
+  }
+
+  const lines = [chalk.bold("\n\n------------Environment Variable Report------------")];
+
+  if (existing.length > 0) {
+    lines.push(chalk.green("\nExisting Environment Variables:"), ...existing);
+  }
+
+  if (suggestions.length > 0) {
+    lines.push(chalk.yellow("\n⚠ Suggested Environment Variables:"), ...suggestions);
+  } else {
+    lines.push(chalk.green("\n🎉 Congrats! You have no suggestions detected! 🎉\n"));
+  }
+
+  const suppressed = Object.entries(results).flatMap(([key, entry]) =>
+    (entry.suppressed ?? []).map((s) => ({ key, s }))
+  );
+  if (suppressed.length > 0 && options.showSuppressed) {
+    lines.push(
+      chalk.gray("\n🔇 Suppressed by env-guardian-ignore comments:"),
+      ...suppressed.map(({ key, s }) =>
+        chalk.gray(
+          `  ${key} (${formatLocation(s, dir)}${s.rule ? ` [${s.rule}]` : ""}) ` +
+            `${s.suppression.kind} on line ${s.suppression.line}: ${s.suppression.reason ?? "no reason given"}`
+        )
+      )
+    );
+  } else if (suppressed.length > 0) {
+    lines.push(
+      chalk.gray(`\nℹ ${suppressed.length} finding(s) suppressed by env-guardian-ignore comments (see --show-suppressed)`)
+    );
+  }
+
+  if (options.baseline) {
+    lines.push(chalk.gray(`\nℹ ${options.baseline.suppressed} known finding(s) hidden by the baseline`));
+    if (options.baseline.stale.length > 0) {
+      lines.push(
+        chalk.cyan(`\n🧹 Stale baseline entries (resolved, run 'env-guardian baseline --prune'):`),
+        ...options.baseline.stale.map((f) => chalk.gray(`  ${f.variable} (${f.file}, ${f.rule})`))
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Keeps scanning a directory as files change, printing what each change added or resolved.
+ */
+async function runWatch(dir: string, options: { cache?: boolean; workers?: number; maxFileSize?: number }) {
+  const root = path.resolve(dir);
+  const { priority } = projectConfig();
+  const visible = (f: WatchFinding) =>
+    !isIgnored(configs.forFile(f.file), f.variable, f.file) &&
+    (!priority || SEVERITY_ORDER[f.severity ?? "LOW"] >= SEVERITY_ORDER[priority]);
+  const describe = (f: WatchFinding) =>
+    `${severityLabel(f.severity ?? "LOW")} ${chalk.yellow(f.variable)} (${formatLocation(f, dir)}${
+      f.rule ? chalk.gray(` [${f.rule}]`) : ""
+    })`;
+
+  const watcher = await watchScan(
+    root,
+    {
+      ...getScanOptions(),
+      optionsFor: scanOptionsFor(configs, (fromConfig) => ({ ...fromConfig, maxFileSize: options.maxFileSize })),
+      cache: options.cache === false ? false : undefined,
+      workers: options.workers,
+      maxFileSize: options.maxFileSize,
+    },
+    (diff, changed) => {
+      const added = diff.added.filter(visible);
+      const resolved = diff.resolved.filter(visible);
+      if (added.length === 0 && resolved.length === 0) return;
+
+      // New critical findings are announced before anything else, with a terminal bell
+      const critical = added.filter((f) => f.severity === "CRITICAL");
+      if (critical.length > 0) {
+        process.stdout.write("\x07");
+        for (const f of critical) {
+          console.log(chalk.bgRed.white.bold(`\n 🚨 NEW CRITICAL FINDING: ${f.variable} in ${formatLocation(f, dir)} `));
+        }
+      }
+
+      const files = changed.map((file) => path.relative(root, file)).join(", ");
+      console.log(chalk.bold(`\n🔄 ${new Date().toLocaleTimeString()} ${files}`));
+      added.forEach((f) => console.log(chalk.red("  + ") + describe(f)));
+      resolved.forEach((f) => console.log(chalk.green("  ✔ resolved ") + describe(f)));
+    },
+    (error) => console.error(chalk.red("❌ [ERROR] watch failed:"), error)
+  );
+
+  console.log(renderTextReport(filterBySeverity(applyIgnoreRules(watcher.results(), configs), priority), dir));
+  console.log(chalk.cyan(`\n👀 Watching ${dir} for changes (Ctrl+C to stop)`));
+}
+
 // ---------- Commands ----------
+// Configs are read once a command is known, so a broken file is reported instead of
+// crashing at startup, and `config validate` can still inspect it
+program.hook("preAction", (_program, command) => {
+  if (command.parent?.name() === "config") return;
+  try {
+    scanConfig = loadConfig();
+    configs = createConfigResolver();
+  } catch (e) {
+    console.error(chalk.red(`❌ [ERROR] ${e instanceof Error ? e.message : e}`));
+    console.error(chalk.gray("Run 'env-guardian config validate' to check every config file."));
+    process.exit(EXIT_CODES.ERROR);
+  }
+});
+
 program
   .command("scan [dir]")
   .description("Scan project for environment variables")
@@ -135,146 +490,817 @@ program
     "--to-env [name]",
     "create or append suggestions to user defined .env file (default: .env)"
   )
-  .action((dir = ".", options) => {
-    try {
-      const results: EnvScanResult = scanForEnv(path.resolve(dir));
-
-      const existing: string[] = [];
-      const suggestions: string[] = [];
-
-      for (const [key, entry] of Object.entries(results)) {
-        // Ignore rules
-        if (isIgnored(key, entry.usage[0] ?? entry.suggested[0]?.file ?? "")) continue;
-
-        // Handle USAGE (always LOW severity)
-        if (entry.usage.length > 0) {
-          if (
-            scanConfig.priority &&
-            SEVERITY_ORDER["LOW"] < SEVERITY_ORDER[scanConfig.priority]
-          ) {
-            continue;
-          }
-          existing.push(
-            chalk.green(`✔ ${key}`) +
-              ` (used in: ${entry.usage.map((f) => path.relative(dir, f)).join(", ")})`
-          );
-        }
+  .option("--format <format>", `output format (${REPORT_FORMATS.join(", ")})`, "text")
+  .option("--output <file>", "write the report to a file instead of stdout")
+  .option(
+    "--fail-on <level>",
+    "exit with a non-zero code when findings at or above this severity remain (low, medium, high, critical)"
+  )
+  .option("--baseline [file]", `only report findings missing from the baseline (default: ${BASELINE_FILE})`)
+  .option("--staged", "only scan files staged in git (reads the staged contents)")
+  .option("--since <ref>", "only scan files changed since a git ref")
+  .option("--stats", "print file counts, cache hits and timing after the scan")
+  .option("--no-cache", "ignore and don't update the on-disk results cache")
+  .option("--workers <n>", "worker threads to scan with (default: CPU count - 1)")
+  .option("--watch", "keep running and re-scan files as they change")
+  .option("--max-file-size <kb>", `skip files larger than this many KB (default: ${DEFAULT_MAX_FILE_SIZE / 1024})`)
+  .option("--show-suppressed", "list findings silenced by env-guardian-ignore comments")
+  .option(
+    "--known-values",
+    "also report where values from your env files (every .env* in the directory) appear, build output included"
+  )
+  .option(
+    "--known-values-file <path>",
+    "env file to take known values from instead, repeatable (implies --known-values)",
+    (file: string, files: string[] = []) => [...files, file]
+  )
+  .action(async (dir = ".", options) => {
+    const format = String(options.format).toLowerCase() as ReportFormat;
+    if (!REPORT_FORMATS.includes(format)) {
+      console.error(
+        chalk.red(`❌ Invalid format. Must be one of: ${REPORT_FORMATS.join(", ")}`)
+      );
+      process.exit(EXIT_CODES.ERROR);
+    }
 
-        // Handle SUGGESTIONS
-        if (entry.suggested.length > 0) {
-          let maxSeverity: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL" = "LOW";
-          for (const s of entry.suggested) {
-            if (s.severity && SEVERITY_ORDER[s.severity] > SEVERITY_ORDER[maxSeverity]) {
-              maxSeverity = s.severity;
-            }
-          }
+    const failOn = options.failOn ? parseSeverity(options.failOn) : projectConfig().failOn;
+    if (options.failOn && !failOn) {
+      console.error(
+        chalk.red("❌ Invalid --fail-on level. Must be one of: low, medium, high, or critical")
+      );
+      process.exit(EXIT_CODES.ERROR);
+    }
 
-          if (
-            scanConfig.priority &&
-            SEVERITY_ORDER[maxSeverity] < SEVERITY_ORDER[scanConfig.priority]
-          ) {
-            continue;
-          }
+    const workers = options.workers !== undefined ? Number(options.workers) : undefined;
+    const maxFileSizeKb = options.maxFileSize !== undefined ? Number(options.maxFileSize) : undefined;
+    if ((workers !== undefined && !(Number.isInteger(workers) && workers > 0)) || (maxFileSizeKb !== undefined && !(maxFileSizeKb > 0))) {
+      console.error(chalk.red("❌ --workers and --max-file-size must be positive numbers"));
+      process.exit(EXIT_CODES.ERROR);
+    }
 
-          const coloredLabel =
-            maxSeverity === "CRITICAL"
-              ? chalk.red(`[${maxSeverity}]`)
-              : maxSeverity === "HIGH"
-              ? chalk.hex("#FFA500")(`[${maxSeverity}]`)
-              : maxSeverity === "MEDIUM"
-              ? chalk.yellow(`[${maxSeverity}]`)
-              : chalk.green(`[${maxSeverity}]`);
-
-          suggestions.push(
-            `${coloredLabel} ${chalk.yellow(key)} (found in: ${entry.suggested
-              .map((s) => path.relative(dir, s.file))
-              .join(", ")})`
+    const maxFileSize = maxFileSizeKb !== undefined ? Math.round(maxFileSizeKb * 1024) : undefined;
+
+    if (options.knownValuesFile) options.knownValues = true;
+    if (options.knownValues && (options.staged || options.since)) {
+      console.error(chalk.red("❌ --known-values searches the whole directory and can't be combined with --staged or --since"));
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    if (options.watch) {
+      if (options.staged || options.since || options.output || options.toEnv || options.baseline || options.knownValues || format !== "text") {
+        console.error(
+          chalk.red("❌ --watch can't be combined with --staged, --since, --output, --to-env, --baseline, --known-values or --format")
+        );
+        process.exit(EXIT_CODES.ERROR);
+      }
+      try {
+        await runWatch(dir, { cache: options.cache, workers, maxFileSize });
+      } catch (e) {
+        console.error(chalk.red("❌ [ERROR] watch failed:"), e instanceof Error ? e.message : e);
+        process.exitCode = EXIT_CODES.ERROR;
+      }
+      return;
+    }
+
+    // Keep stdout clean for machine-readable reports
+    const log = format === "text" || options.output ? console.log : console.error;
+
+    try {
+      const root = path.resolve(dir);
+      const stats = createScanStats();
+      const results: EnvScanResult = await collectResults(root, {
+        staged: options.staged,
+        since: options.since,
+        cache: options.cache,
+        workers,
+        maxFileSize,
+        stats,
+      });
+
+      if (options.knownValues) {
+        const sources: string[] = options.knownValuesFile ?? defaultKnownValueFiles(root);
+        const missing = sources.filter((f) => !fs.existsSync(f));
+        if (sources.length === 0 || missing.length > 0) {
+          throw new Error(
+            missing.length > 0 ? `env file(s) not found: ${missing.join(", ")}` : `no .env files in ${dir} to take known values from`
           );
         }
+
+        const known = loadKnownValues(sources);
+        log(
+          chalk.gray(
+            `\n🔑 Looking for ${known.length} secret value(s) from ${sources.map((f) => path.relative(process.cwd(), f)).join(", ")}`
+          )
+        );
+        mergeResults(results, await scanKnownValues(root, known, sources, { maxFileSize: maxFileSize ?? KNOWN_VALUES_MAX_FILE_SIZE }));
       }
 
-      console.log(chalk.bold("\n\n------------Environment Variable Report------------"));
+      let remaining = applyIgnoreRules(results, configs);
+      const reportOptions: ReportOptions = { rules: getRules(getScanOptions()), showSuppressed: options.showSuppressed };
 
-      if (existing.length > 0) {
-        console.log(chalk.green("\nExisting Environment Variables:"));
-        existing.forEach((e) => console.log(e));
+      if (options.baseline) {
+        const baselineFile = typeof options.baseline === "string" ? options.baseline : BASELINE_FILE;
+        const compared = applyBaseline(remaining, loadBaseline(baselineFile), root);
+        remaining = compared.results;
+        reportOptions.baseline = compared.comparison;
       }
 
-      if (suggestions.length > 0) {
-        console.log(chalk.yellow("\n⚠ Suggested Environment Variables:"));
-        suggestions.forEach((s) => console.log(s));
+      const filtered = filterBySeverity(remaining, projectConfig().priority);
+
+      if (options.output) {
+        // No ANSI colors in report files
+        const level = chalk.level;
+        if (format === "text") chalk.level = 0;
+        const report =
+          format === "text" ? renderTextReport(filtered, dir, reportOptions) : REPORTERS[format](filtered, root, reportOptions);
+        chalk.level = level;
+
+        fs.writeFileSync(options.output, report + "\n");
+        log(chalk.green(`\n✔ ${format.toUpperCase()} report written to ${options.output}`));
+      } else if (format === "text") {
+        console.log(renderTextReport(filtered, dir, reportOptions));
       } else {
-        console.log(chalk.green("\n🎉 Congrats! You have no suggestions detected! 🎉\n"));
+        console.log(REPORTERS[format](filtered, root, reportOptions));
       }
 
+      if (options.stats) log(chalk.gray(formatStats(stats)));
+
       // Handle --to-env
       if (options.toEnv) {
         const envFile = typeof options.toEnv === "string" ? options.toEnv : ".env";
         const envPath = path.join(process.cwd(), envFile);
 
         if (!VALID_ENV_FILES.has(envFile)) {
-          console.log(
+          log(
             chalk.red(`
               \n❌ Invalid env file name: ${envFile}.
               Only the following are allowed: ${Array.from(VALID_ENV_FILES).join(", ")}`
             )
           );
         } else {
-          let existingContent = "";
-          if (fs.existsSync(envPath)) {
-            existingContent = fs.readFileSync(envPath, "utf-8");
+          // Keys that already hold a value are kept; empty placeholders are filled in place
+          const existing = readDotenvFile(envPath, { interpolate: false });
+
+          const newSuggestions: Record<string, string> = {};
+          // Same findings as the report: ignored, baselined and low-priority ones are left out
+          for (const [variable, entry] of Object.entries(filtered)) {
+            // Values found in env files are already where they belong, and a
+            // known value comes from one of them
+            const suggested = entry.suggested.filter((s) => s.rule !== "known-value" && !isEnvFile(path.basename(s.file)));
+            if (suggested.length === 0 || existing[variable]) continue;
+
+            const values = suggested.map((v) => v.value).filter(Boolean);
+            newSuggestions[variable] = values[0] ?? "Error grabbing value. Fill me in yourself!";
           }
 
-          const newSuggestions = Object.entries(results)
-            .filter(([variable, entry]) => {
-              const allFiles = entry.suggested.map((s) => s.file);
-              return (
-                entry.suggested.length > 0 &&
-                !existingContent.includes(`${variable}=`) &&
-                !isIgnored(variable, "") &&
-                !allFiles.some((f) => isIgnored("", f))
-              );
-            })
-            .map(([variable, entry]) => {
-              const values = entry.suggested.map((v) => v.value).filter(Boolean);
-
-              if (values.length > 0) {
-                return `\n${variable}=${values[0]}`;
-              }
-              return `${variable}="Error grabbing value. Fill me in yourself!"`;
+          const added = Object.keys(newSuggestions).length;
+          if (added > 0) {
+            updateDotenvFile(envPath, newSuggestions, {
+              comment: [
+                "Suggested by env-guardian",
+                "Next Steps include: Renaming envs to their correct format and adding values the scanner didn't manage to grab.",
+                "For more info on correct formatting of Environment Variables for your language,",
+                "visit: https://env-guardian.online/docs/env-naming-conventions/env-variables",
+              ].join("\n"),
             });
-
-          if (newSuggestions.length > 0) {
-            const envComment = `\n\n
-# Suggested by env-guardian
-# Next Steps include: Renaming envs to their correct format and adding values the scanner didn't manage to grab.
-# For more info on correct formatting of Environment Variables for your language, 
-# visit: https://env-guardian.online/docs/env-naming-conventions/env-variables
-`;
-            fs.appendFileSync(
-              envPath,
-              envComment + newSuggestions.join("\n") + "\n"
-            );
-            console.log(
-              chalk.yellow(`\n✨ Added ${newSuggestions.length} suggestion(s) to ${envFile}`)
+            log(
+              chalk.yellow(`\n✨ Added ${added} suggestion(s) to ${envFile}`)
             );
           } else {
-            console.log(chalk.gray(`\nNo new suggestions to add to ${envFile}`));
+            log(chalk.gray(`\nNo new suggestions to add to ${envFile}`));
           }
         }
       }
+
+      // Handle --fail-on
+      if (failOn) {
+        const failing = countFindingsAtOrAbove(remaining, failOn);
+        if (failing > 0) {
+          log(chalk.red(`\n❌ ${failing} finding(s) at or above [${failOn}]. Failing the scan.`));
+          process.exitCode = EXIT_CODES.FINDINGS;
+        }
+      }
+    } catch (e) {
+      console.error(chalk.red("❌ [ERROR] scan failed:"), e instanceof Error ? e.message : e);
+      process.exitCode = EXIT_CODES.ERROR;
+    }
+  });
+
+// -------- Fix command --------
+program
+  .command("fix [dir]")
+  .description("Replace hardcoded secrets with env lookups and move the values into an env file")
+  .option("--write", "apply the changes (default: print a diff only)")
+  .option("--env-file <name>", "env file that receives the values", ".env")
+  .action(async (dir = ".", options) => {
+    const envFile: string = options.envFile;
+    if (!VALID_ENV_FILES.has(envFile)) {
+      console.error(
+        chalk.red(`❌ Invalid env file name: ${envFile}. Only the following are allowed: ${Array.from(VALID_ENV_FILES).join(", ")}`)
+      );
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    try {
+      const root = path.resolve(dir);
+      const envPath = path.join(process.cwd(), envFile);
+      const results = filterBySeverity(applyIgnoreRules(await collectResults(root), configs), projectConfig().priority);
+      const plan = planFixes(results, readDotenvFile(envPath, { interpolate: false }));
+
+      if (plan.edits.length === 0) {
+        console.log(chalk.green("\n🎉 Nothing to fix! 🎉\n"));
+      } else if (!options.write) {
+        console.log(renderFixDiff(plan, root));
+        const newVars = Object.keys(plan.envVars);
+        if (newVars.length > 0) {
+          console.log(`--- a/${envFile}\n+++ b/${envFile}`);
+          newVars.forEach((name) => console.log(chalk.green(`+${name}=${redactValue(plan.envVars[name])}`)));
+        }
+        console.log(chalk.cyan(`\nℹ Dry run: ${plan.edits.length} replacement(s) planned. Re-run with --write to apply.`));
+      } else {
+        for (const [file, edits] of editsByFile(plan)) {
+          fs.writeFileSync(file, applyEdits(file, fs.readFileSync(file, "utf-8"), edits));
+        }
+
+        const newVars = Object.entries(plan.envVars);
+        if (newVars.length > 0) {
+          updateDotenvFile(envPath, plan.envVars, { comment: "Moved by env-guardian fix" });
+        }
+
+        console.log(
+          chalk.green(
+            `\n✔ Replaced ${plan.edits.length} hardcoded value(s) in ${editsByFile(plan).size} file(s) and added ${newVars.length} variable(s) to ${envFile}`
+          )
+        );
+      }
+
+      for (const s of plan.skipped) {
+        console.log(chalk.gray(`  skipped ${s.variable} (${path.relative(root, s.file)}:${s.line}): ${s.reason}`));
+      }
+    } catch (e) {
+      console.error(chalk.red("❌ [ERROR] fix failed:"), e instanceof Error ? e.message : e);
+      process.exitCode = EXIT_CODES.ERROR;
+    }
+  });
+
+// -------- Check command --------
+program
+  .command("check [dir]")
+  .description("Compare env vars read in code against .env files and .env.example")
+  .option("--generate-example", `write a ${EXAMPLE_ENV_FILE} with the values removed`)
+  .action(async (dir = ".", options) => {
+    try {
+      const root = path.resolve(dir);
+      const results = applyIgnoreRules(await collectResults(root), configs);
+
+      const envFiles: Record<string, Record<string, string>> = {};
+      for (const name of [...VALID_ENV_FILES, EXAMPLE_ENV_FILE]) {
+        if (name.startsWith(".env") && fs.existsSync(path.join(root, name))) {
+          envFiles[name] = readDotenvFile(path.join(root, name), { interpolate: false });
+        }
+      }
+
+      const check = checkEnv(results, envFiles);
+      const where = (usage: EnvLocation[]) =>
+        chalk.gray(` (used in: ${usage.map((u) => formatLocation(u, dir)).join(", ")})`);
+
+      console.log(chalk.bold("\n\n------------Environment Variable Check------------"));
+
+      if (check.missing.length > 0) {
+        console.log(chalk.red("\n❌ Used in code but not defined in any .env file:"));
+        check.missing.forEach((m) => console.log(chalk.red(`  ${m.name}`) + where(m.usage)));
+      }
+      if (check.undocumented.length > 0) {
+        console.log(chalk.yellow(`\n⚠ Used in code but missing from ${EXAMPLE_ENV_FILE}:`));
+        check.undocumented.forEach((m) => console.log(chalk.yellow(`  ${m.name}`) + where(m.usage)));
+      }
+      if (check.exampleValues.length > 0) {
+        console.log(chalk.red(`\n❌ ${EXAMPLE_ENV_FILE} entries with real-looking values:`));
+        check.exampleValues.forEach((v) => console.log(chalk.red(`  ${v.name}`) + chalk.gray(` (${v.reason})`)));
+      }
+      if (check.unused.length > 0) {
+        console.log(chalk.cyan("\nℹ Defined but never used in code:"));
+        check.unused.forEach((u) => console.log(chalk.cyan(`  ${u.name}`) + chalk.gray(` (defined in: ${u.files.join(", ")})`)));
+      }
+
+      const problems = check.missing.length + check.undocumented.length + check.exampleValues.length;
+      if (problems === 0) {
+        console.log(chalk.green("\n🎉 Every variable read in code is defined! 🎉\n"));
+      } else {
+        process.exitCode = EXIT_CODES.FINDINGS;
+      }
+
+      if (options.generateExample) {
+        const envPath = path.join(root, ".env");
+        const source = fs.existsSync(envPath) ? fs.readFileSync(envPath, "utf-8") : "";
+        const defined = parseDotenvValues(source, { interpolate: false });
+        const extra = [...new Set([...check.missing, ...check.undocumented].map((m) => m.name))]
+          .filter((name) => !(name in defined))
+          .sort();
+
+        fs.writeFileSync(path.join(root, EXAMPLE_ENV_FILE), generateExample(source, extra));
+        console.log(chalk.green(`\n✔ Wrote ${EXAMPLE_ENV_FILE} with ${Object.keys(defined).length + extra.length} variable(s)\n`));
+      }
+    } catch (e) {
+      console.error(chalk.red("❌ [ERROR] check failed:"), e instanceof Error ? e.message : e);
+      process.exitCode = EXIT_CODES.ERROR;
+    }
+  });
+
+// -------- Validate command --------
+program
+  .command("validate [files...]")
+  .description(`Check env file values against ${ENV_SCHEMA_FILE} (default: every .env file here)`)
+  .option("--schema <file>", "schema file", ENV_SCHEMA_FILE)
+  .option("--env <name>", "environment the files are for (default: from the file name, e.g. .env.production)")
+  .option("--key-file <file>", `key file for encrypted (.enc) files (default: ${KEY_FILE})`, KEY_FILE)
+  .action((files: string[], options) => {
+    let schema: EnvSchema;
+    try {
+      schema = loadEnvSchema(options.schema);
+    } catch (e) {
+      console.error(chalk.red(`❌ [ERROR] ${e instanceof Error ? e.message : e}`));
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    const targets =
+      files.length > 0 ? files : [...VALID_ENV_FILES].filter((name) => name.startsWith(".env") && fs.existsSync(name));
+    if (targets.length === 0) {
+      console.error(chalk.red("❌ No .env files found to validate"));
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    let invalid = 0;
+    for (const file of targets) {
+      const environment = options.env ?? environmentOf(file);
+      const label = file + (environment ? chalk.gray(` (${environment})`) : "");
+      let variables: Record<string, string>;
+      try {
+        if (!fs.existsSync(file)) throw new Error("file not found");
+        variables = file.endsWith(ENCRYPTED_SUFFIX)
+          ? readEncryptedDotenv(file, requireKey(options.keyFile))
+          : readDotenvFile(file);
+      } catch (e) {
+        console.log(chalk.red(`❌ ${label}`) + `
+  ${e instanceof Error ? e.message : e}`);
+        invalid++;
+        continue;
+      }
+
+      const { violations } = validateEnv(variables, schema, { environment });
+      if (violations.length === 0) {
+        console.log(chalk.green(`✔ ${label}`));
+      } else {
+        console.log(chalk.red(`❌ ${label}`));
+        violations.forEach((v) => console.log(`  ${chalk.yellow(v.key)}: ${v.reason}`));
+        invalid++;
+      }
+    }
+
+    if (invalid > 0) {
+      console.log(chalk.red(`\n${invalid} of ${targets.length} env file(s) don't match ${options.schema}\n`));
+      process.exitCode = EXIT_CODES.FINDINGS;
+    } else {
+      console.log(chalk.green(`\n✔ ${targets.length} env file(s) match ${options.schema}\n`));
+    }
+  });
+
+// -------- Encrypted env file commands --------
+/**
+ * Loads the encryption key if there is one, or exits when it is invalid.
+ */
+function readKey(keyFile: string): EncryptionKey | undefined {
+  try {
+    return loadKey({ keyFile });
+  } catch (e) {
+    console.error(chalk.red(`❌ ${e instanceof Error ? e.message : e}`));
+    process.exit(EXIT_CODES.ERROR);
+  }
+}
+
+/**
+ * Loads the encryption key, or exits with a hint on where to put it.
+ */
+function requireKey(keyFile: string): EncryptionKey {
+  const key = readKey(keyFile);
+  if (!key) {
+    console.error(
+      chalk.red(`❌ No encryption key found. Set ${KEY_ENV_VAR} or add the key file (${keyFile}) shared by your team`)
+    );
+    process.exit(EXIT_CODES.ERROR);
+  }
+  return key;
+}
+
+/**
+ * Adds an entry to .gitignore. False when there is no .gitignore to add it to.
+ */
+function addToGitignore(entry: string): boolean {
+  const gitignore = path.join(process.cwd(), ".gitignore");
+  if (!fs.existsSync(gitignore)) return false;
+
+  const source = fs.readFileSync(gitignore, "utf-8");
+  if (!source.split(/\r?\n/).some((line) => line.trim() === entry || line.trim() === `/${entry}`)) {
+    fs.appendFileSync(gitignore, `${source.endsWith("\n") || source === "" ? "" : "\n"}${entry}\n`);
+  }
+  return true;
+}
+
+program
+  .command("encrypt [file]")
+  .description(`Encrypt an env file (default: .env) so it can be committed, creating ${KEY_FILE} if there is no key yet`)
+  .option("--output <file>", "where to write the encrypted file (default: <file>.enc)")
+  .option("--key-file <file>", `key file to use (default: ${KEY_FILE}, ${KEY_ENV_VAR} takes precedence)`, KEY_FILE)
+  .action((file = ".env", options) => {
+    if (!fs.existsSync(file)) {
+      console.error(chalk.red(`❌ ${file} doesn't exist`));
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    let key = readKey(options.keyFile);
+    if (!key) {
+      const generated = generateKey();
+      saveKey(options.keyFile, generated);
+      key = parseKey(generated, options.keyFile);
+      console.log(chalk.green(`✔ Created a new key in ${options.keyFile}`));
+      console.log(
+        addToGitignore(path.relative(process.cwd(), path.resolve(options.keyFile)))
+          ? chalk.gray(`  Added it to .gitignore. Share it with your team through a password manager, never through git.`)
+          : chalk.yellow(`⚠ Keep ${options.keyFile} out of version control and share it through a password manager.`)
+      );
+    }
+
+    const output = options.output ?? encryptedPath(file);
+    fs.writeFileSync(output, encryptEnv(fs.readFileSync(file, "utf-8"), key));
+    console.log(chalk.green(`✔ Encrypted ${file} to ${output}`) + chalk.gray(` (key ${key.id} from ${key.source})`));
+    console.log(chalk.gray(`  ${output} is safe to commit; ${file} is not.`));
+  });
+
+program
+  .command("decrypt [file]")
+  .description("Decrypt an encrypted env file (default: .env.enc)")
+  .option("--output <file>", "where to write the plaintext (default: <file> without .enc)")
+  .option("--stdout", "print the plaintext instead of writing a file")
+  .option("-f, --force", "overwrite a plaintext file with different contents")
+  .option("--key-file <file>", `key file to use (default: ${KEY_FILE}, ${KEY_ENV_VAR} takes precedence)`, KEY_FILE)
+  .action((file = ".env.enc", options) => {
+    if (!fs.existsSync(file)) {
+      console.error(chalk.red(`❌ ${file} doesn't exist`));
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    const key = requireKey(options.keyFile);
+    let plaintext: string;
+    try {
+      plaintext = decryptEnv(fs.readFileSync(file, "utf-8"), key);
+    } catch (e) {
+      console.error(chalk.red(`❌ Can't decrypt ${file}: ${e instanceof Error ? e.message : e}`));
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    if (options.stdout) {
+      process.stdout.write(plaintext);
+      return;
+    }
+
+    const output = options.output ?? decryptedPath(file);
+    const existing = fs.existsSync(output) ? fs.readFileSync(output, "utf-8") : undefined;
+    if (existing === plaintext) {
+      console.log(chalk.gray(`${output} is already up to date`));
+      return;
+    }
+    if (existing !== undefined && !options.force) {
+      console.error(chalk.red(`❌ ${output} has changes that aren't in ${file}. Encrypt them first, or re-run with --force to overwrite`));
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    fs.writeFileSync(output, plaintext, { mode: 0o600 });
+    console.log(chalk.green(`✔ Decrypted ${file} to ${output}`));
+  });
+
+program
+  .command("run <command...>")
+  .description("Run a command with the variables of an encrypted env file, without writing them to disk")
+  .option("--env-file <file>", "encrypted env file to load", ".env.enc")
+  .option("--override", "let the file's values replace variables that are already set")
+  .option("--key-file <file>", `key file to use (default: ${KEY_FILE}, ${KEY_ENV_VAR} takes precedence)`, KEY_FILE)
+  .action((command: string[], options) => {
+    const key = requireKey(options.keyFile);
+    let variables: Record<string, string>;
+    try {
+      variables = readEncryptedDotenv(options.envFile, key, { env: process.env });
+    } catch (e) {
+      console.error(chalk.red(`❌ Can't load ${options.envFile}: ${e instanceof Error ? e.message : e}`));
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    // The key itself stays out of the child's environment
+    const { [KEY_ENV_VAR]: _key, ...inherited } = process.env;
+    const env = options.override ? { ...inherited, ...variables } : { ...variables, ...inherited };
+
+    const child = spawn(command[0], command.slice(1), {
+      stdio: "inherit",
+      env,
+      shell: process.platform === "win32",
+    });
+
+    // Ctrl+C and Ctrl+\ already reach the child through the terminal's process group, so
+    // they are only ignored here to wait for it. Signals sent to this process alone are passed on.
+    const ignore = () => {};
+    const forward = (signal: NodeJS.Signals) => () => child.kill(signal);
+    const handlers = [
+      ...(["SIGINT", "SIGQUIT"] as const).map((signal) => [signal, ignore] as const),
+      ...(["SIGTERM", "SIGHUP"] as const).map((signal) => [signal, forward(signal)] as const),
+    ];
+    handlers.forEach(([signal, handler]) => process.on(signal, handler));
+
+    child.on("error", (e) => {
+      console.error(chalk.red(`❌ Couldn't start ${command[0]}: ${e.message}`));
+      process.exitCode = EXIT_CODES.ERROR;
+    });
+    child.on("exit", (code, signal) => {
+      handlers.forEach(([s, handler]) => process.off(s, handler));
+      process.exitCode = code ?? 128 + (signal ? os.constants.signals[signal] : 0);
+    });
+  });
+
+program
+  .command("rotate-key [files...]")
+  .description("Re-encrypt env files (default: every .env*.enc here) with a new key")
+  .option("--key-file <file>", `key file to replace (default: ${KEY_FILE})`, KEY_FILE)
+  .action((files: string[], options) => {
+    const oldKey = requireKey(options.keyFile);
+    const targets = files.length > 0 ? files : findEncryptedEnvFiles(process.cwd()).map((f) => path.relative(process.cwd(), f));
+    if (targets.length === 0) {
+      console.error(chalk.red("❌ No encrypted env files found to rotate"));
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    const generated = generateKey();
+    const newKey = parseKey(generated, options.keyFile);
+    // Saved next to the old key first, so it isn't lost if re-encrypting fails halfway
+    const pending = `${options.keyFile}.new`;
+    saveKey(pending, generated);
+
+    try {
+      rotateKey(targets, oldKey, newKey);
+    } catch (e) {
+      const rotated = targets.filter((f) => fs.readFileSync(f, "utf-8").includes(`:${newKey.id}:`));
+      if (rotated.length === 0) fs.rmSync(pending, { force: true });
+      console.error(
+        chalk.red(`❌ Key rotation failed: ${e instanceof Error ? e.message : e}`) +
+          (rotated.length === 0
+            ? chalk.gray("\n  Nothing was changed.")
+            : chalk.yellow(`\n  ${rotated.join(", ")} already use the new key saved in ${pending}`))
+      );
+      process.exit(EXIT_CODES.ERROR);
+    }
+    fs.renameSync(pending, options.keyFile);
+
+    targets.forEach((f) => console.log(chalk.green(`✔ Re-encrypted ${f}`)));
+    console.log(chalk.green(`✔ Saved the new key (${newKey.id}) to ${options.keyFile}, replacing key ${oldKey.id}`));
+    if (oldKey.source === KEY_ENV_VAR) {
+      console.log(chalk.yellow(`⚠ Update ${KEY_ENV_VAR} with the new key from ${options.keyFile}; until then it still holds the old one`));
+    }
+    console.log(chalk.gray("  Commit the re-encrypted files and share the new key with your team. Anyone with only the old key can no longer decrypt them."));
+  });
+
+// -------- Git hook commands --------
+program
+  .command("install-hook")
+  .description("Install a git pre-commit hook that scans staged files")
+  .option("--fail-on <level>", "severity that blocks the commit (low, medium, high, critical)")
+  .option("-f, --force", "replace an existing pre-commit hook")
+  .action((options) => {
+    const failOn = options.failOn ? parseSeverity(options.failOn) : projectConfig().failOn ?? "HIGH";
+    if (!failOn) {
+      console.error(
+        chalk.red("❌ Invalid --fail-on level. Must be one of: low, medium, high, or critical")
+      );
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    try {
+      const { hookPath, replaced } = installPreCommitHook(
+        process.cwd(),
+        ["--fail-on", failOn.toLowerCase()],
+        options.force
+      );
+      console.log(
+        chalk.green(`\n✔ ${replaced ? "Updated" : "Installed"} pre-commit hook at ${hookPath}`) +
+          chalk.gray(`\n  Commits with staged [${failOn}] findings and above will be blocked.\n`)
+      );
+    } catch (e) {
+      console.error(chalk.red("❌ [ERROR] install-hook failed:"), e instanceof Error ? e.message : e);
+      process.exitCode = EXIT_CODES.ERROR;
+    }
+  });
+
+// -------- History commands --------
+const HISTORY_FORMATS = ["text", "json"];
+
+program
+  .command("history [range]")
+  .description("Scan lines added in past commits for secrets that still need rotating")
+  .option("--max-commits <n>", "only walk the most recent n commits")
+  .option("--format <format>", `output format (${HISTORY_FORMATS.join(", ")})`, "text")
+  .option("--fail-on <level>", "exit with a non-zero code when findings at or above this severity exist")
+  .action(async (range: string | undefined, options) => {
+    const format = String(options.format).toLowerCase();
+    if (!HISTORY_FORMATS.includes(format)) {
+      console.error(chalk.red(`❌ Invalid format. Must be one of: ${HISTORY_FORMATS.join(", ")}`));
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    const maxCommits = options.maxCommits ? Number(options.maxCommits) : undefined;
+    if (maxCommits !== undefined && (!Number.isInteger(maxCommits) || maxCommits <= 0)) {
+      console.error(chalk.red("❌ --max-commits must be a positive integer"));
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    const failOn = options.failOn ? parseSeverity(options.failOn) : projectConfig().failOn;
+    if (options.failOn && !failOn) {
+      console.error(
+        chalk.red("❌ Invalid --fail-on level. Must be one of: low, medium, high, or critical")
+      );
+      process.exit(EXIT_CODES.ERROR);
+    }
+
+    try {
+      const root = getRepoRoot(process.cwd());
+      const { commits, findings: allFindings } = await scanGitHistory(root, {
+        ...getScanOptions(),
+        range,
+        maxCommits,
+      });
+      const { priority } = projectConfig();
+      const findings = allFindings.filter(
+        (f) =>
+          !isIgnored(configs.forFile(f.file), f.variable, f.file) &&
+          !(priority && SEVERITY_ORDER[f.severity ?? "LOW"] < SEVERITY_ORDER[priority])
+      );
+
+      if (format === "json") {
+        console.log(
+          JSON.stringify(
+            {
+              commits,
+              findings: findings.map(({ file, ...f }) => ({
+                ...f,
+                file: path.relative(root, file).split(path.sep).join("/"),
+              })),
+            },
+            null,
+            2
+          )
+        );
+      } else {
+        console.log(chalk.bold("\n\n------------Git History Report------------"));
+        for (const f of findings) {
+          console.log(
+            `\n${severityLabel(f.severity ?? "LOW")} ${chalk.yellow(f.variable)} ${chalk.gray(`[${f.rule}]`)} ${chalk.cyan(f.commit.slice(0, 10))} ${f.date} ${f.author}` +
+              `\n    ${formatLocation(f, root)}  ${chalk.gray(f.snippet)}`
+          );
+        }
+
+        if (findings.length > 0) {
+          console.log(
+            chalk.yellow(
+              `\n⚠ ${findings.length} finding(s) in ${commits} commit(s). Secrets that were ever committed should be rotated.\n`
+            )
+          );
+        } else {
+          console.log(chalk.green(`\n🎉 No secrets found in ${commits} commit(s)! 🎉\n`));
+        }
+      }
+
+      if (
+        failOn &&
+        findings.some((f) => f.severity && SEVERITY_ORDER[f.severity] >= SEVERITY_ORDER[failOn])
+      ) {
+        process.exitCode = EXIT_CODES.FINDINGS;
+      }
+    } catch (e) {
+      console.error(chalk.red("❌ [ERROR] history scan failed:"), e instanceof Error ? e.message : e);
+      process.exitCode = EXIT_CODES.ERROR;
+    }
+  });
+
+// -------- Baseline commands --------
+program
+  .command("baseline [dir]")
+  .description("Record current findings so later scans with --baseline only report new ones")
+  .option("--file <file>", "baseline file to write", BASELINE_FILE)
+  .option("--prune", "only remove stale entries from an existing baseline")
+  .action(async (dir = ".", options) => {
+    try {
+      const root = path.resolve(dir);
+      const results = applyIgnoreRules(await collectResults(root), configs);
+
+      if (options.prune) {
+        const baseline = loadBaseline(options.file);
+        const { comparison } = applyBaseline(results, baseline, root);
+        saveBaseline(options.file, pruneBaseline(baseline, comparison.stale));
+        console.log(
+          chalk.cyan(`\n🧹 Pruned ${comparison.stale.length} stale entr(ies) from ${options.file}\n`)
+        );
+        return;
+      }
+
+      const baseline = createBaseline(results, root);
+      saveBaseline(options.file, baseline);
+      console.log(
+        chalk.green(`\n✔ Baseline with ${baseline.findings.length} finding(s) written to ${options.file}\n`)
+      );
     } catch (e) {
-      console.error(chalk.red("❌ [ERROR] scan failed:"), e);
+      console.error(chalk.red("❌ [ERROR] baseline failed:"), e instanceof Error ? e.message : e);
+      process.exitCode = EXIT_CODES.ERROR;
     }
   });
 
 // -------- Ignore/Unignore commands --------
+/**
+ * How an ignore reads in messages, e.g. "API_KEY in test/*.ts".
+ */
+function describeIgnore(entry: { variable?: string; file?: string }): string {
+  if (entry.variable && entry.file) return `${entry.variable} in ${entry.file}`;
+  return entry.variable ?? `ALL variables in ${entry.file}`;
+}
+
+/**
+ * Path or glob as stored in the config, relative to the working directory.
+ */
+function toIgnorePath(file: string): string {
+  return path.relative(process.cwd(), path.resolve(file)).split(path.sep).join("/");
+}
+
+/**
+ * Path or glob as stored in an ignore rule. Rule globs without a `/` match at any depth,
+ * so existing files at the top level are anchored with a leading `/`.
+ */
+function toIgnoreRulePath(file: string): string {
+  const relative = toIgnorePath(file);
+  return !relative.includes("/") && fs.existsSync(file) ? `/${relative}` : relative;
+}
+
+/**
+ * Checks --reason/--expires and turns them into ignore rules, or exits with a message.
+ */
+function toIgnoreRules(targets: { variable?: string; file?: string }[], options: { reason?: string; expires?: string }): IgnoreRule[] {
+  const reason = options.reason?.trim();
+  if (!reason) {
+    console.error(chalk.red("❌ --reason is required for scoped and expiring ignores"));
+    process.exit(EXIT_CODES.ERROR);
+  }
+  const expiry = options.expires !== undefined ? parseExpiry(options.expires) : undefined;
+  if (options.expires !== undefined && !expiry) {
+    console.error(chalk.red("❌ --expires must be a date like 2025-12-31"));
+    process.exit(EXIT_CODES.ERROR);
+  }
+  if (expiry && expiry < new Date()) {
+    console.log(chalk.yellow(`⚠ ${options.expires} has already passed, the ignore won't apply`));
+  }
+  return targets.map((target) => ({ ...target, reason, ...(options.expires && { expires: options.expires }) }));
+}
+
+/**
+ * Adds ignore rules to the config, skipping ones it already has.
+ */
+function addIgnoreRules(rules: IgnoreRule[]) {
+  scanConfig.ignore.rules ??= [];
+  for (const rule of rules) {
+    const existing = scanConfig.ignore.rules.find((r) => r.variable === rule.variable && r.file === rule.file);
+    if (existing) {
+      Object.assign(existing, rule);
+      console.log(chalk.gray(`Updated the reason and expiry of ${describeIgnore(rule)}`));
+    } else {
+      scanConfig.ignore.rules.push(rule);
+      console.log(chalk.green(`✔ Now ignoring ${describeIgnore(rule)}`) + chalk.gray(` (${rule.reason})`));
+    }
+  }
+}
+
 program
   .command("ignore [variables...]")
-  .description("Ignore one or more environment variables")
-  .action((variables: string[]) => {
+  .description("Ignore one or more environment variables (names may use *)")
+  .option("--file <glob>", "only ignore them in files matching a glob")
+  .option("--reason <text>", "why this is safe to ignore (required with --file and --expires)")
+  .option("--expires <date>", "last day the ignore applies (YYYY-MM-DD)")
+  .action((variables: string[], options) => {
     const variablesToIgnore = variables.map((v) => v.trim()).filter(Boolean);
 
+    if (options.file || options.expires || options.reason) {
+      if (variablesToIgnore.length === 0 && !options.file) {
+        console.error(chalk.red("❌ Name the variable(s) to ignore, a --file glob, or both"));
+        process.exit(EXIT_CODES.ERROR);
+      }
+      const file = options.file ? toIgnoreRulePath(options.file) : undefined;
+      const targets = variablesToIgnore.length > 0 ? variablesToIgnore.map((variable) => ({ variable, ...(file && { file }) })) : [{ file }];
+      addIgnoreRules(toIgnoreRules(targets, options));
+      saveConfig(scanConfig);
+      return;
+    }
+
     for (const v of variablesToIgnore) {
       if (!scanConfig.ignore.variables.includes(v)) {
         scanConfig.ignore.variables.push(v);
@@ -284,16 +1310,22 @@ program
       }
     }
 
-    saveScanConfig();
+    saveConfig(scanConfig);
   });
 
 program
   .command("ignore-files [files...]")
-  .description("Ignore ALL variables in one or more files")
-  .action((files: string[]) => {
-    const filesToIgnore = files.map((f) =>
-      path.relative(process.cwd(), path.resolve(f))
-    );
+  .description("Ignore ALL variables in one or more files or globs (quote globs so the shell doesn't expand them)")
+  .option("--reason <text>", "why this is safe to ignore (required with --expires)")
+  .option("--expires <date>", "last day the ignore applies (YYYY-MM-DD)")
+  .action((files: string[], options) => {
+    const filesToIgnore = files.map(toIgnorePath);
+
+    if (options.expires || options.reason) {
+      addIgnoreRules(toIgnoreRules(files.map((file) => ({ file: toIgnoreRulePath(file) })), options));
+      saveConfig(scanConfig);
+      return;
+    }
 
     for (const f of filesToIgnore) {
       if (!scanConfig.ignore.files.includes(f)) {
@@ -304,44 +1336,86 @@ program
       }
     }
 
-    saveScanConfig();
+    saveConfig(scanConfig);
   });
 
 program
   .command("unignore [variables...]")
-  .description("Stop ignoring one or more environment variables")
+  .description("Stop ignoring one or more environment variables, in every file")
   .action((variables: string[]) => {
     for (const v of variables) {
       const index = scanConfig.ignore.variables.indexOf(v);
-      if (index !== -1) {
-        scanConfig.ignore.variables.splice(index, 1);
+      const rules = scanConfig.ignore.rules ?? [];
+      const remaining = rules.filter((r) => r.variable !== v);
+      if (index !== -1 || remaining.length < rules.length) {
+        if (index !== -1) scanConfig.ignore.variables.splice(index, 1);
+        if (scanConfig.ignore.rules) scanConfig.ignore.rules = remaining;
         console.log(chalk.green(`✔ No longer ignoring ${v}`));
       } else {
         console.log(chalk.gray(`${v} was not ignored`));
       }
     }
-    saveScanConfig();
+    saveConfig(scanConfig);
   });
 
 program
   .command("unignore-files [files...]")
-  .description("Stop ignoring one or more files")
+  .description("Stop ignoring one or more files or globs")
   .action((files: string[]) => {
-    const filesToUnignore = files.map((f) =>
-      path.relative(process.cwd(), path.resolve(f))
-    );
+    for (const file of files) {
+      // The plain list stores the path as is, rules may anchor it with a leading "/"
+      const f = toIgnorePath(file);
+      const forms = [f, toIgnoreRulePath(file)];
+      const before = scanConfig.ignore.files.length + (scanConfig.ignore.rules?.length ?? 0);
+      scanConfig.ignore.files = scanConfig.ignore.files.filter((entry) => !forms.includes(entry));
+      if (scanConfig.ignore.rules) {
+        scanConfig.ignore.rules = scanConfig.ignore.rules.filter((r) => r.variable || !forms.includes(r.file ?? ""));
+      }
 
-    for (const f of filesToUnignore) {
-      const index = scanConfig.ignore.files.indexOf(f);
-      if (index !== -1) {
-        scanConfig.ignore.files.splice(index, 1);
+      if (scanConfig.ignore.files.length + (scanConfig.ignore.rules?.length ?? 0) < before) {
         console.log(chalk.green(`✔ No longer ignoring ${f}`));
       } else {
         console.log(chalk.gray(`${f} was not ignored`));
       }
     }
 
-    saveScanConfig();
+    saveConfig(scanConfig);
+  });
+
+program
+  .command("ignore-list")
+  .description("List ignored variables and files, including those from parent and extended configs")
+  .action(() => {
+    const { ignores } = configs.forDirectory(process.cwd());
+    if (ignores.length === 0) {
+      console.log(chalk.cyan("\nℹ Nothing is ignored\n"));
+      return;
+    }
+
+    const now = new Date();
+    const ownConfig = path.resolve(CONFIG_FILE);
+    const describe = (entry: IgnoreEntry) => {
+      const details = [
+        entry.reason ?? chalk.gray("no reason given"),
+        entry.source && entry.source !== ownConfig ? chalk.gray(`from ${path.relative(process.cwd(), entry.source)}`) : "",
+      ].filter(Boolean);
+      const expiry = !entry.expires
+        ? ""
+        : isExpired(entry, now)
+        ? chalk.red(` ⚠ EXPIRED on ${entry.expires}, no longer applied`)
+        : chalk.gray(` (until ${entry.expires})`);
+      return `  • ${chalk.yellow(describeIgnore(entry))}: ${details.join(", ")}${expiry}`;
+    };
+
+    console.log(chalk.bold("\n🙈 Ignored:"));
+    ignores.forEach((entry) => console.log(describe(entry)));
+
+    const expired = ignores.filter((entry) => isExpired(entry, now)).length;
+    if (expired > 0) {
+      console.log(chalk.red(`\n${expired} expired ignore(s): remove them, or renew them with a new --expires date\n`));
+    } else {
+      console.log();
+    }
   });
 
 program
@@ -351,7 +1425,7 @@ program
   .action((options) => {
     const doReset = () => {
       scanConfig.ignore = { variables: [], files: [] };
-      saveScanConfig();
+      saveConfig(scanConfig);
       console.log(chalk.cyan("🔄 Ignore rules have been reset"));
     };
 
@@ -372,19 +1446,15 @@ program
   .command("set-priority <level>")
   .description("Set minimum severity level for results (low, medium, high, critical)")
   .action((level: string) => {
-    const severityLevel = level.toUpperCase() as
-      | "LOW"
-      | "MEDIUM"
-      | "HIGH"
-      | "CRITICAL";
-    if (!["LOW", "MEDIUM", "HIGH", "CRITICAL"].includes(severityLevel)) {
+    const severityLevel = parseSeverity(level);
+    if (!severityLevel) {
       console.error(
         chalk.red("❌ Invalid priority. Must be one of: low, medium, high, or critical")
       );
-      process.exit(1);
+      process.exit(EXIT_CODES.ERROR);
     }
     scanConfig.priority = severityLevel;
-    saveScanConfig();
+    saveConfig(scanConfig);
     console.log(chalk.green(`\n✔ Priority set to [${severityLevel}]\n`));
   });
 
@@ -393,8 +1463,72 @@ program
   .description("Reset severity filter to show all results")
   .action(() => {
     scanConfig.priority = undefined;
-    saveScanConfig();
+    saveConfig(scanConfig);
     console.log(chalk.cyan("\n🔄 Priority filter reset. All severities will be shown on scan.\n"));
   });
 
-program.parse(process.argv);
+program
+  .command("set-fail-on <level>")
+  .description("Make scan exit non-zero when findings at or above a level remain (low, medium, high, critical)")
+  .action((level: string) => {
+    const severityLevel = parseSeverity(level);
+    if (!severityLevel) {
+      console.error(
+        chalk.red("❌ Invalid level. Must be one of: low, medium, high, or critical")
+      );
+      process.exit(EXIT_CODES.ERROR);
+    }
+    scanConfig.failOn = severityLevel;
+    saveConfig(scanConfig);
+    console.log(chalk.green(`\n✔ Scan will fail on [${severityLevel}] findings and above\n`));
+  });
+
+program
+  .command("reset-fail-on")
+  .description("Stop failing scans based on finding severity")
+  .action(() => {
+    scanConfig.failOn = undefined;
+    saveConfig(scanConfig);
+    console.log(chalk.cyan("\n🔄 Fail-on level reset. Findings will no longer fail the scan.\n"));
+  });
+
+// -------- Config commands --------
+const configCommand = program.command("config").description(`Inspect ${CONFIG_FILE} files`);
+
+configCommand
+  .command("validate [files...]")
+  .description(`Check config files and everything they extend (default: every ${CONFIG_FILE} below the current directory)`)
+  .action((files: string[]) => {
+    const targets = files.length > 0 ? files.map((f) => path.resolve(f)) : findConfigFiles(process.cwd());
+    if (targets.length === 0) {
+      console.log(chalk.cyan(`\nℹ No ${CONFIG_FILE} found, the defaults apply\n`));
+      return;
+    }
+
+    let invalid = 0;
+    for (const target of targets) {
+      // Shared configs are extended by many files; report each problem under the file that has it
+      const issues = validateConfigFile(target);
+      const label = path.relative(process.cwd(), target) || target;
+      if (issues.length === 0) {
+        console.log(chalk.green(`✔ ${label}`));
+        continue;
+      }
+
+      invalid++;
+      console.log(chalk.red(`❌ ${label}`));
+      for (const issue of issues) {
+        const where = issue.file === target ? "" : chalk.gray(`${path.relative(process.cwd(), issue.file)}: `);
+        console.log(`  - ${where}${issue.message}`);
+      }
+    }
+
+    if (invalid > 0) {
+      console.log(chalk.red(`\n${invalid} of ${targets.length} config file(s) have problems\n`));
+      process.exitCode = EXIT_CODES.FINDINGS;
+    } else {
+      console.log(chalk.green(`\n✔ ${targets.length} config file(s) are valid\n`));
+    }
+  });
+
+program.parseAsync(process.argv);
@@ -0,0 +1,639 @@
+import fs from "fs";
+import path from "path";
+import { DEFAULT_ENTROPY_THRESHOLDS, EntropyThresholds } from "./entropy";
+import { EnvLocation, EnvScanResult, EnvScanResultEntry, ScanOptions, Severity, isIgnoredDirectory } from "./index";
+import { matchesGlob } from "./glob";
+import { loadPlugins } from "./plugins";
+import { CustomRule, compileRules } from "./rules";
+
+export interface ScanConfig {
+  /** Config files this one builds on: paths relative to it, or package names. */
+  extends?: string | string[];
+  /** Stops the lookup of configs in parent directories. */
+  root?: boolean;
+  ignore: {
+    /** Variable names, `*` matches any characters. */
+    variables: string[];
+    /**
+     * Paths relative to the config file, e.g. `src/config.js` or `__tests__`. Entries with
+     * glob characters (`*.fixture.ts`) are matched like the file globs of `rules`.
+     */
+    files: string[];
+    rules?: IgnoreRule[];
+  };
+  priority?: Severity;
+  failOn?: Severity;
+  entropy?: Partial<EntropyThresholds>;
+  rules?: CustomRule[];
+  disabledRules?: string[];
+  plugins?: string[];
+}
+
+/**
+ * An ignore with a reason, optionally limited to a variable in some files and to a date.
+ */
+export interface IgnoreRule {
+  /** Variable name, `*` matches any characters. */
+  variable?: string;
+  /** Glob of files, relative to the config file. */
+  file?: string;
+  reason: string;
+  /** Last day the rule applies, as YYYY-MM-DD. */
+  expires?: string;
+}
+
+/**
+ * Any ignore from a config, plain list entries included, with where it came from.
+ */
+export interface IgnoreEntry {
+  variable?: string;
+  file?: string;
+  reason?: string;
+  expires?: string;
+  /** Directory `file` is relative to. */
+  baseDir: string;
+  /** From the plain `ignore.files` list, where `file` is a path unless it contains glob characters. */
+  plain?: boolean;
+  /** Config file that declared it, if any. */
+  source?: string;
+}
+
+/**
+ * A config merged with its parents and everything it extends. Plugin paths are absolute,
+ * since they may come from different directories.
+ */
+export interface ResolvedConfig {
+  config: ScanConfig;
+  /** Config files that were merged, outermost first. */
+  files: string[];
+  /** Ignores of every merged config, each relative to its own file. */
+  ignores: IgnoreEntry[];
+  scanOptions: ScanOptions;
+}
+
+export interface ConfigResolver {
+  /** Config that applies to the files in a directory. */
+  forDirectory(dir: string): ResolvedConfig;
+  /** Config that applies to a file. */
+  forFile(file: string): ResolvedConfig;
+}
+
+export interface ConfigIssue {
+  file: string;
+  message: string;
+}
+
+export const CONFIG_FILE = ".envscanconfig.json";
+
+const CONFIG_KEYS = ["extends", "root", "ignore", "priority", "failOn", "entropy", "rules", "disabledRules", "plugins"];
+
+export const SEVERITY_ORDER: Record<Severity, number> = {
+  LOW: 1,
+  MEDIUM: 2,
+  HIGH: 3,
+  CRITICAL: 4,
+};
+
+/**
+ * Parses a severity level in any case, e.g. from a CLI flag.
+ */
+export function parseSeverity(level: string): Severity | undefined {
+  const severityLevel = level.toUpperCase();
+  return severityLevel in SEVERITY_ORDER ? (severityLevel as Severity) : undefined;
+}
+
+export function createDefaultConfig(): ScanConfig {
+  return { ignore: { variables: [], files: [] } };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const IGNORE_RULE_KEYS = ["variable", "file", "reason", "expires"];
+
+function validateIgnoreRule(rule: unknown): string[] {
+  if (!isObject(rule)) return ["must be an object"];
+  const issues: string[] = [];
+  for (const key of Object.keys(rule)) {
+    if (!IGNORE_RULE_KEYS.includes(key)) issues.push(`unknown key "${key}" (expected one of: ${IGNORE_RULE_KEYS.join(", ")})`);
+  }
+  for (const key of ["variable", "file"]) {
+    if (rule[key] !== undefined && (typeof rule[key] !== "string" || !rule[key])) issues.push(`"${key}" must be a non-empty string`);
+  }
+  if (rule.variable === undefined && rule.file === undefined) issues.push(`needs a "variable", a "file" or both`);
+  if (typeof rule.reason !== "string" || !rule.reason.trim()) issues.push(`"reason" is required`);
+  if (rule.expires !== undefined && (typeof rule.expires !== "string" || parseExpiry(rule.expires) === undefined)) {
+    issues.push(`"expires" must be a date like 2025-12-31`);
+  }
+  return issues;
+}
+
+/**
+ * End of the last day an ignore applies, in local time. Undefined when it isn't a date.
+ */
+export function parseExpiry(expires: string): Date | undefined {
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(expires) ? new Date(`${expires}T23:59:59.999`) : new Date(expires);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Whether an ignore's `expires` date has passed.
+ */
+export function isExpired(entry: { expires?: string }, now: Date = new Date()): boolean {
+  const date = entry.expires !== undefined ? parseExpiry(entry.expires) : undefined;
+  return date !== undefined && now > date;
+}
+
+/**
+ * Checks the shape of a parsed config. Returns one message per problem, none when it's valid.
+ */
+export function validateConfig(raw: unknown): string[] {
+  if (!isObject(raw)) return ["must be a JSON object"];
+  const issues: string[] = [];
+  const isStringList = (value: unknown) => Array.isArray(value) && value.every((v) => typeof v === "string");
+  const checkStringList = (value: unknown, field: string) => {
+    if (value !== undefined && !isStringList(value)) issues.push(`"${field}" must be an array of strings`);
+  };
+
+  for (const key of Object.keys(raw)) {
+    if (!CONFIG_KEYS.includes(key)) issues.push(`unknown key "${key}" (expected one of: ${CONFIG_KEYS.join(", ")})`);
+  }
+
+  if (raw.extends !== undefined && typeof raw.extends !== "string" && !isStringList(raw.extends)) {
+    issues.push(`"extends" must be a path or package name, or an array of them`);
+  }
+  if (raw.root !== undefined && typeof raw.root !== "boolean") issues.push(`"root" must be true or false`);
+
+  if (raw.ignore !== undefined) {
+    if (!isObject(raw.ignore)) {
+      issues.push(`"ignore" must be an object with "variables" and "files" arrays`);
+    } else {
+      for (const key of Object.keys(raw.ignore)) {
+        if (!["variables", "files", "rules"].includes(key)) issues.push(`unknown key "ignore.${key}"`);
+      }
+      checkStringList(raw.ignore.variables, "ignore.variables");
+      checkStringList(raw.ignore.files, "ignore.files");
+      if (raw.ignore.rules !== undefined && !Array.isArray(raw.ignore.rules)) {
+        issues.push(`"ignore.rules" must be an array`);
+      } else {
+        (raw.ignore.rules ?? []).forEach((rule: unknown, i: number) =>
+          issues.push(...validateIgnoreRule(rule).map((issue) => `ignore.rules[${i}]: ${issue}`))
+        );
+      }
+    }
+  }
+
+  for (const key of ["priority", "failOn"]) {
+    const value = raw[key];
+    if (value !== undefined && !(typeof value === "string" && value in SEVERITY_ORDER)) {
+      issues.push(`"${key}" must be one of: ${Object.keys(SEVERITY_ORDER).join(", ")}`);
+    }
+  }
+
+  if (raw.entropy !== undefined) {
+    if (!isObject(raw.entropy)) {
+      issues.push(`"entropy" must be an object`);
+    } else {
+      for (const [key, value] of Object.entries(raw.entropy)) {
+        if (!(key in DEFAULT_ENTROPY_THRESHOLDS)) {
+          issues.push(`unknown key "entropy.${key}" (expected one of: ${Object.keys(DEFAULT_ENTROPY_THRESHOLDS).join(", ")})`);
+        } else if (typeof value !== "number" || value < 0) {
+          issues.push(`"entropy.${key}" must be a positive number`);
+        }
+      }
+    }
+  }
+
+  if (raw.rules !== undefined) {
+    if (!Array.isArray(raw.rules)) {
+      issues.push(`"rules" must be an array`);
+    } else {
+      raw.rules.forEach((rule, i) => {
+        try {
+          compileRules([rule]);
+        } catch (e) {
+          issues.push(`rules[${i}]: ${(e as Error).message}`);
+        }
+      });
+    }
+  }
+
+  checkStringList(raw.disabledRules, "disabledRules");
+  checkStringList(raw.plugins, "plugins");
+  return issues;
+}
+
+/**
+ * JSON.parse with the error pointing at a line and column rather than an offset.
+ */
+export function parseConfigJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    const message = (e as Error).message;
+    const position = message.match(/at position (\d+)/)?.[1];
+    if (position === undefined) throw new Error(`invalid JSON: ${message}`);
+
+    const before = text.slice(0, Number(position)).split("\n");
+    const reason = message.replace(/ in JSON at position \d+.*$/, "");
+    throw new Error(`invalid JSON at line ${before.length}, column ${before[before.length - 1].length + 1}: ${reason}`);
+  }
+}
+
+/**
+ * Reads a single config file as written, without applying `extends`. A missing file
+ * yields the default (empty) config; a malformed or invalid one throws a readable error.
+ */
+export function loadConfig(configPath: string = CONFIG_FILE): ScanConfig {
+  if (!fs.existsSync(configPath)) return createDefaultConfig();
+  let raw: unknown;
+  try {
+    raw = parseConfigJson(fs.readFileSync(configPath, "utf-8"));
+  } catch (e) {
+    throw new Error(`${configPath}: ${(e as Error).message}`);
+  }
+
+  const issues = validateConfig(raw);
+  if (issues.length > 0) throw new Error(`${configPath} has errors:\n  - ${issues.join("\n  - ")}`);
+
+  // Shared configs often only set rules, so "ignore" may be missing
+  const config = raw as Partial<ScanConfig>;
+  return {
+    ...config,
+    ignore: {
+      variables: config.ignore?.variables ?? [],
+      files: config.ignore?.files ?? [],
+      ...(config.ignore?.rules && { rules: config.ignore.rules }),
+    },
+  };
+}
+
+export function saveConfig(config: ScanConfig, configPath: string = CONFIG_FILE) {
+  fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+}
+
+/**
+ * Finds a config named in `extends`: a path relative to the extending file, or a package.
+ */
+function resolveExtends(specifier: string, fromDir: string): string {
+  return specifier.startsWith(".") || path.isAbsolute(specifier)
+    ? path.resolve(fromDir, specifier)
+    : require.resolve(specifier, { paths: [fromDir] });
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+/**
+ * Makes the plugin paths of a config absolute, relative to the directory it lives in.
+ */
+function absolutePaths(config: ScanConfig, dir: string): ScanConfig {
+  return { ...config, plugins: config.plugins?.map((p) => (p.startsWith(".") ? path.resolve(dir, p) : p)) };
+}
+
+/**
+ * Whether configs in `dir` may load plugins: only `pluginRoot` and its parents can, so
+ * scanning a tree never runs code that a config inside it points to.
+ */
+function mayLoadPlugins(dir: string, pluginRoot: string): boolean {
+  const relative = path.relative(path.resolve(dir), path.resolve(pluginRoot));
+  return relative === "" || !(relative === ".." || relative.startsWith(".." + path.sep) || path.isAbsolute(relative));
+}
+
+/**
+ * Every ignore of a single config: the plain lists and the rules.
+ */
+export function ignoreEntries(config: ScanConfig, baseDir: string = process.cwd(), source?: string): IgnoreEntry[] {
+  return [
+    ...config.ignore.variables.map((variable) => ({ variable, baseDir, source })),
+    ...config.ignore.files.map((file) => ({ file, baseDir, source, plain: true })),
+    ...(config.ignore.rules ?? []).map((rule) => ({ ...rule, baseDir, source })),
+  ];
+}
+
+/**
+ * The glob an entry's `file` is matched with. Plain list entries without glob characters
+ * are paths from the config's directory, as they were before globs were supported.
+ */
+function filePattern(entry: IgnoreEntry, file: string): string {
+  if (!entry.plain || /[*?[{]/.test(file)) return file;
+  return "/" + path.relative(entry.baseDir, path.resolve(entry.baseDir, file)).split(path.sep).join("/");
+}
+
+/**
+ * The first ignore hiding `variable` in `file` that hasn't expired. Entries with a variable
+ * and a file only hide that variable in those files.
+ */
+export function findIgnoreEntry(
+  entries: IgnoreEntry[],
+  variable: string,
+  file: string,
+  now: Date = new Date()
+): IgnoreEntry | undefined {
+  return entries.find((entry) => {
+    if (entry.variable !== undefined && !(variable && matchesGlob(variable, [entry.variable]))) return false;
+    if (entry.file !== undefined) {
+      if (!file) return false;
+      const relative = path.relative(entry.baseDir, path.resolve(entry.baseDir, file));
+      if (!matchesGlob(relative, [filePattern(entry, entry.file)])) return false;
+    }
+    return !isExpired(entry, now);
+  });
+}
+
+/**
+ * Layers `override` on top of `base`: lists are combined, rules with the same ID and
+ * single values are replaced.
+ */
+function mergeConfigs(base: ScanConfig, override: ScanConfig): ScanConfig {
+  const overridden = new Set(override.rules?.map((r) => r.id));
+  return {
+    root: override.root,
+    ignore: {
+      variables: unique([...base.ignore.variables, ...override.ignore.variables]),
+      files: unique([...base.ignore.files, ...override.ignore.files]),
+      rules: [...(base.ignore.rules ?? []), ...(override.ignore.rules ?? [])],
+    },
+    priority: override.priority ?? base.priority,
+    failOn: override.failOn ?? base.failOn,
+    entropy: base.entropy || override.entropy ? { ...base.entropy, ...override.entropy } : undefined,
+    rules: [...(base.rules ?? []).filter((r) => !overridden.has(r.id)), ...(override.rules ?? [])],
+    disabledRules: unique([...(base.disabledRules ?? []), ...(override.disabledRules ?? [])]),
+    plugins: unique([...(base.plugins ?? []), ...(override.plugins ?? [])]),
+  };
+}
+
+/**
+ * Loads a config file with everything it extends, parents first.
+ */
+function loadConfigChain(
+  configPath: string,
+  chain: string[] = []
+): { config: ScanConfig; files: string[]; ignores: IgnoreEntry[] } {
+  if (chain.includes(configPath)) {
+    throw new Error(`Circular extends: ${[...chain, configPath].join(" -> ")}`);
+  }
+  if (!fs.existsSync(configPath)) throw new Error(`${chain[chain.length - 1]} extends ${configPath}, which doesn't exist`);
+
+  const dir = path.dirname(configPath);
+  const own = absolutePaths(loadConfig(configPath), dir);
+  const parents = typeof own.extends === "string" ? [own.extends] : own.extends ?? [];
+
+  let config = createDefaultConfig();
+  const files: string[] = [];
+  const ignores: IgnoreEntry[] = [];
+  for (const specifier of parents) {
+    let parentPath: string;
+    try {
+      parentPath = resolveExtends(specifier, dir);
+    } catch {
+      throw new Error(`${configPath} extends "${specifier}", which can't be found`);
+    }
+    const parent = loadConfigChain(parentPath, [...chain, configPath]);
+    config = mergeConfigs(config, parent.config);
+    files.push(...parent.files);
+    ignores.push(...parent.ignores);
+  }
+
+  return {
+    config: mergeConfigs(config, own),
+    files: unique([...files, configPath]),
+    ignores: [...ignores, ...ignoreEntries(own, dir, configPath)],
+  };
+}
+
+function toResolved(config: ScanConfig, files: string[], dir: string, ignores: IgnoreEntry[] = []): ResolvedConfig {
+  return { config, files, ignores, scanOptions: configToScanOptions(config, dir) };
+}
+
+/**
+ * Loads one config file and everything it extends. With `plugins: false`, the plugins
+ * they list are left out instead of loaded.
+ */
+export function resolveConfigFile(configPath: string, options: { plugins?: boolean } = {}): ResolvedConfig {
+  const absPath = path.resolve(configPath);
+  const { config, files, ignores } = loadConfigChain(absPath);
+  const allowed = options.plugins === false ? { ...config, plugins: [] } : config;
+  return toResolved(allowed, files, path.dirname(absPath), ignores);
+}
+
+/**
+ * Finds the config of each scanned file. Every directory may hold a `.envscanconfig.json`;
+ * the configs from the file's directory up to the repository root (or one with
+ * `"root": true`) are merged, the closest one winning. With `configFile`, that one
+ * file applies everywhere instead; `false` applies the defaults.
+ *
+ * Plugins are only loaded from `configFile`, or from configs in `pluginRoot` (default:
+ * the current directory) and its parents. Those listed in configs below it are ignored.
+ */
+export function createConfigResolver(
+  options: { configFile?: string | false; pluginRoot?: string } = {}
+): ConfigResolver {
+  const pluginRoot = options.pluginRoot ?? process.cwd();
+  const byDir = new Map<string, ResolvedConfig>();
+  const fixed =
+    options.configFile === false
+      ? toResolved(createDefaultConfig(), [], process.cwd())
+      : options.configFile !== undefined
+      ? resolveConfigFile(options.configFile)
+      : undefined;
+
+  const forDirectory = (dir: string): ResolvedConfig => {
+    if (fixed) return fixed;
+    const absDir = path.resolve(dir);
+    let resolved = byDir.get(absDir);
+    if (resolved) return resolved;
+
+    const configPath = path.join(absDir, CONFIG_FILE);
+    const own = fs.existsSync(configPath)
+      ? resolveConfigFile(configPath, { plugins: mayLoadPlugins(absDir, pluginRoot) })
+      : undefined;
+    const parentDir = path.dirname(absDir);
+    const isTop = own?.config.root || parentDir === absDir || fs.existsSync(path.join(absDir, ".git"));
+    const parent = isTop ? undefined : forDirectory(parentDir);
+
+    if (own && parent && parent.files.length > 0) {
+      const config = mergeConfigs(parent.config, own.config);
+      const files = unique([...parent.files, ...own.files]);
+      resolved = toResolved(config, files, absDir, [...parent.ignores, ...own.ignores]);
+    } else {
+      resolved = own ?? parent ?? toResolved(createDefaultConfig(), [], absDir);
+    }
+    byDir.set(absDir, resolved);
+    return resolved;
+  };
+
+  return { forDirectory, forFile: (file) => forDirectory(path.dirname(path.resolve(file))) };
+}
+
+/**
+ * Every config file below a directory, skipping the directories scans skip.
+ */
+export function findConfigFiles(root: string): string[] {
+  const found: string[] = [];
+  const pending = [path.resolve(root)];
+  for (let dir; (dir = pending.pop()) !== undefined; ) {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory() && !isIgnoredDirectory(entry.name)) pending.push(fullPath);
+      else if (entry.isFile() && entry.name === CONFIG_FILE) found.push(fullPath);
+    }
+  }
+  return found.sort();
+}
+
+/**
+ * Checks a config file and every file it extends, collecting all problems rather than
+ * stopping at the first: malformed JSON, schema errors, missing or circular `extends`
+ * and plugins that fail to load. Plugins of configs below `pluginRoot` are not loaded,
+ * like in createConfigResolver().
+ */
+export function validateConfigFile(configPath: string, options: { pluginRoot?: string } = {}): ConfigIssue[] {
+  const plugins = mayLoadPlugins(path.dirname(path.resolve(configPath)), options.pluginRoot ?? process.cwd());
+  const issues: ConfigIssue[] = [];
+  const visit = (file: string, chain: string[]) => {
+    let raw: unknown;
+    try {
+      raw = parseConfigJson(fs.readFileSync(file, "utf-8"));
+    } catch (e) {
+      issues.push({ file, message: (e as Error).message });
+      return;
+    }
+
+    issues.push(...validateConfig(raw).map((message) => ({ file, message })));
+    if (!isObject(raw)) return;
+
+    // Follow `extends` and load plugins even when other keys are wrong, to report everything at once
+    const strings = (value: unknown) =>
+      (typeof value === "string" ? [value] : Array.isArray(value) ? value : []).filter((v) => typeof v === "string");
+    const dir = path.dirname(file);
+    for (const specifier of strings(raw.extends)) {
+      let parentPath: string;
+      try {
+        parentPath = resolveExtends(specifier, dir);
+      } catch {
+        issues.push({ file, message: `extends "${specifier}", which can't be found` });
+        continue;
+      }
+      if (!fs.existsSync(parentPath)) issues.push({ file, message: `extends "${specifier}", which doesn't exist` });
+      else if (chain.includes(parentPath)) issues.push({ file, message: `extends "${specifier}", which extends this file again` });
+      else visit(parentPath, [...chain, parentPath]);
+    }
+
+    try {
+      if (plugins) loadPlugins(strings(raw.plugins), dir);
+    } catch (e) {
+      issues.push({ file, message: (e as Error).message });
+    }
+  };
+
+  const absPath = path.resolve(configPath);
+  visit(absPath, [absPath]);
+  return issues;
+}
+
+/**
+ * Scan options for each file from its config, e.g. for streamScan()'s `optionsFor`.
+ * `customize` adds per-run settings; its result is reused for every file sharing a config.
+ */
+export function scanOptionsFor(
+  resolver: ConfigResolver,
+  customize: (options: ScanOptions) => ScanOptions = (options) => options
+): (file: string) => ScanOptions {
+  const memo = new WeakMap<ResolvedConfig, ScanOptions>();
+  return (file) => {
+    const resolved = resolver.forFile(file);
+    let options = memo.get(resolved);
+    if (!options) {
+      options = customize(resolved.scanOptions);
+      memo.set(resolved, options);
+    }
+    return options;
+  };
+}
+
+/**
+ * Scanner options described by a config. Plugins are resolved relative to `baseDir`,
+ * normally the directory holding the config file.
+ */
+export function configToScanOptions(config: ScanConfig, baseDir: string = process.cwd()): ScanOptions {
+  return {
+    entropy: config.entropy,
+    rules: config.rules,
+    disabledRules: config.disabledRules,
+    plugins: loadPlugins(config.plugins ?? [], baseDir),
+  };
+}
+
+/**
+ * Whether a variable in a file is hidden by an ignore that hasn't expired. Globs of a
+ * plain config are relative to `baseDir`; a resolved config knows where each came from.
+ */
+export function isIgnored(
+  config: ScanConfig | ResolvedConfig,
+  variable: string,
+  file: string,
+  baseDir: string = process.cwd()
+): boolean {
+  const entries = "ignores" in config ? config.ignores : ignoreEntries(config, baseDir);
+  return findIgnoreEntry(entries, variable, file) !== undefined;
+}
+
+/**
+ * Drops findings hidden by the ignore rules, location by location. With a resolver, each
+ * location is checked against the config of its own file.
+ */
+export function applyIgnoreRules(
+  results: EnvScanResult,
+  config: ScanConfig | ConfigResolver,
+  baseDir: string = process.cwd()
+): EnvScanResult {
+  const entries = "forFile" in config ? undefined : ignoreEntries(config, baseDir);
+  const entriesFor = (file: string) => entries ?? (config as ConfigResolver).forFile(file).ignores;
+  const now = new Date();
+  const kept: EnvScanResult = {};
+  for (const [key, entry] of Object.entries(results)) {
+    const visible = (location: EnvLocation) => !findIgnoreEntry(entriesFor(location.file), key, location.file, now);
+    const usage = entry.usage.filter(visible);
+    const suggested = entry.suggested.filter(visible);
+    const suppressed = entry.suppressed?.filter(visible) ?? [];
+    if (usage.length > 0 || suggested.length > 0 || suppressed.length > 0) {
+      kept[key] = { usage, suggested, ...(suppressed.length > 0 && { suppressed }) };
+    }
+  }
+  return kept;
+}
+
+/**
+ * Highest severity among a variable's suggestions (LOW when there are none).
+ */
+export function highestSeverity(entry: EnvScanResultEntry): Severity {
+  let max: Severity = "LOW";
+  for (const s of entry.suggested) {
+    if (s.severity && SEVERITY_ORDER[s.severity] > SEVERITY_ORDER[max]) max = s.severity;
+  }
+  return max;
+}
+
+/**
+ * Keeps variables whose highest severity reaches `minSeverity`. Usage entries count as LOW.
+ */
+export function filterBySeverity(results: EnvScanResult, minSeverity?: Severity): EnvScanResult {
+  if (!minSeverity) return results;
+  const filtered: EnvScanResult = {};
+
+  for (const [key, entry] of Object.entries(results)) {
+    const usage = SEVERITY_ORDER.LOW < SEVERITY_ORDER[minSeverity] ? [] : entry.usage;
+    const suggested = SEVERITY_ORDER[highestSeverity(entry)] < SEVERITY_ORDER[minSeverity] ? [] : entry.suggested;
+    const suppressed =
+      entry.suppressed?.filter((s) => SEVERITY_ORDER[s.severity ?? "LOW"] >= SEVERITY_ORDER[minSeverity]) ?? [];
+
+    if (usage.length > 0 || suggested.length > 0 || suppressed.length > 0) {
+      filtered[key] = { usage, suggested, ...(suppressed.length > 0 && { suppressed }) };
+    }
+  }
+
+  return filtered;
+}
@@ -0,0 +1,227 @@
+import { Severity } from "./index";
+
+export type Confidence = "low" | "medium" | "high";
+
+export interface SecretDetector {
+  /** Stable rule ID reported with every finding. */
+  id: string;
+  name: string;
+  description: string;
+  regex: RegExp;
+  severity: Severity;
+  confidence: Confidence;
+  /** Variable name suggested when the secret isn't assigned to a named variable. */
+  envName: string;
+}
+
+/**
+ * Provider-specific secret formats. More specific detectors come first, since the
+ * first match wins when a single literal is checked.
+ */
+export const SECRET_DETECTORS: SecretDetector[] = [
+  {
+    id: "private-key",
+    name: "PrivateKey",
+    description: "PEM encoded private key block.",
+    regex: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "PRIVATE_KEY",
+  },
+  {
+    id: "aws-access-key-id",
+    name: "AwsAccessKeyId",
+    description: "AWS access key ID (AKIA/ASIA...).",
+    regex: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "AWS_ACCESS_KEY_ID",
+  },
+  {
+    id: "aws-secret-access-key",
+    name: "AwsSecretAccessKey",
+    description: "AWS secret access key next to an aws_secret style name.",
+    regex: /aws_?secret_?(?:access_?)?key\W{1,5}[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/i,
+    severity: "CRITICAL",
+    confidence: "medium",
+    envName: "AWS_SECRET_ACCESS_KEY",
+  },
+  {
+    id: "github-token",
+    name: "GitHubToken",
+    description: "GitHub personal access, OAuth, app or refresh token (ghp_, gho_, ghu_, ghs_, ghr_).",
+    regex: /\bgh[pousr]_[A-Za-z0-9]{36,255}\b/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "GITHUB_TOKEN",
+  },
+  {
+    id: "github-fine-grained-token",
+    name: "GitHubFineGrainedToken",
+    description: "GitHub fine-grained personal access token (github_pat_).",
+    regex: /\bgithub_pat_[A-Za-z0-9_]{50,255}\b/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "GITHUB_TOKEN",
+  },
+  {
+    id: "gitlab-token",
+    name: "GitLabToken",
+    description: "GitLab personal access token (glpat-).",
+    regex: /\bglpat-[A-Za-z0-9_-]{20,}\b/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "GITLAB_TOKEN",
+  },
+  {
+    id: "slack-token",
+    name: "SlackToken",
+    description: "Slack bot, user, app or refresh token (xoxb-, xoxp-, ...).",
+    regex: /\bxox[abeoprs]-[A-Za-z0-9-]{10,}\b/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "SLACK_TOKEN",
+  },
+  {
+    id: "slack-webhook-url",
+    name: "SlackWebhookUrl",
+    description: "Slack incoming webhook URL.",
+    regex: /https:\/\/hooks\.slack\.com\/(?:services|workflows)\/[A-Za-z0-9_/]{20,}/,
+    severity: "HIGH",
+    confidence: "high",
+    envName: "SLACK_WEBHOOK_URL",
+  },
+  {
+    id: "stripe-secret-key",
+    name: "StripeSecretKey",
+    description: "Stripe live secret or restricted key (sk_live_, rk_live_).",
+    regex: /\b[sr]k_live_[A-Za-z0-9]{20,}\b/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "STRIPE_SECRET_KEY",
+  },
+  {
+    id: "stripe-test-key",
+    name: "StripeTestKey",
+    description: "Stripe test mode secret key (sk_test_).",
+    regex: /\b[sr]k_test_[A-Za-z0-9]{20,}\b/,
+    severity: "MEDIUM",
+    confidence: "high",
+    envName: "STRIPE_SECRET_KEY",
+  },
+  {
+    id: "google-api-key",
+    name: "GoogleApiKey",
+    description: "Google API key (AIza...).",
+    regex: /\bAIza[0-9A-Za-z_-]{35}(?![0-9A-Za-z_-])/,
+    severity: "HIGH",
+    confidence: "high",
+    envName: "GOOGLE_API_KEY",
+  },
+  {
+    id: "google-oauth-client-secret",
+    name: "GoogleOAuthClientSecret",
+    description: "Google OAuth client secret (GOCSPX-).",
+    regex: /\bGOCSPX-[A-Za-z0-9_-]{28}(?![A-Za-z0-9_-])/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "GOOGLE_CLIENT_SECRET",
+  },
+  {
+    id: "openai-api-key",
+    name: "OpenAiApiKey",
+    description: "OpenAI API key (sk-proj-, sk-svcacct-, legacy sk-...T3BlbkFJ...).",
+    regex: /\bsk-(?:(?:proj|svcacct|admin)-[A-Za-z0-9_-]{40,}|[A-Za-z0-9]{20}T3BlbkFJ[A-Za-z0-9]{20})\b/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "OPENAI_API_KEY",
+  },
+  {
+    id: "anthropic-api-key",
+    name: "AnthropicApiKey",
+    description: "Anthropic API key (sk-ant-).",
+    regex: /\bsk-ant-[a-z]+\d{2}-[A-Za-z0-9_-]{80,}/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "ANTHROPIC_API_KEY",
+  },
+  {
+    id: "npm-token",
+    name: "NpmToken",
+    description: "npm access token (npm_).",
+    regex: /\bnpm_[A-Za-z0-9]{36}\b/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "NPM_TOKEN",
+  },
+  {
+    id: "sendgrid-api-key",
+    name: "SendGridApiKey",
+    description: "SendGrid API key (SG.xxx.yyy).",
+    regex: /\bSG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43}(?![A-Za-z0-9_-])/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "SENDGRID_API_KEY",
+  },
+  {
+    id: "twilio-api-key",
+    name: "TwilioApiKey",
+    description: "Twilio API key SID (SK + 32 hex characters).",
+    regex: /\bSK[0-9a-f]{32}\b/,
+    severity: "HIGH",
+    confidence: "medium",
+    envName: "TWILIO_API_KEY",
+  },
+  {
+    id: "database-url-password",
+    name: "DatabaseUrlWithPassword",
+    description: "Database connection string with an embedded password.",
+    regex: /\b(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|rediss?|amqps?|mssql|sqlserver):\/\/[^\s:@/'"`]+:(?![$<{*])[^\s@/'"`]+@[^\s'"`]+/,
+    severity: "CRITICAL",
+    confidence: "high",
+    envName: "DATABASE_URL",
+  },
+  {
+    id: "url-credentials",
+    name: "UrlWithCredentials",
+    description: "HTTP(S) URL with an embedded username and password.",
+    regex: /\bhttps?:\/\/[^\s:@/'"`]+:(?![$<{*])[^\s@/'"`]+@[^\s'"`]+/,
+    severity: "HIGH",
+    confidence: "medium",
+    envName: "SERVICE_URL",
+  },
+  {
+    id: "jwt",
+    name: "JsonWebToken",
+    description: "JSON Web Token (eyJ...).",
+    regex: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/,
+    severity: "HIGH",
+    confidence: "medium",
+    envName: "JWT",
+  },
+];
+
+const GLOBAL_REGEXES = new Map(
+  SECRET_DETECTORS.map((d) => [d.id, new RegExp(d.regex.source, d.regex.flags + "g")])
+);
+
+/**
+ * Returns the first provider detector matching a literal value.
+ */
+export function detectSecret(value: string): SecretDetector | undefined {
+  return SECRET_DETECTORS.find((d) => d.regex.test(value));
+}
+
+/**
+ * Finds every provider secret anywhere in a text, with the offset of each match.
+ */
+export function findSecrets(text: string): { detector: SecretDetector; index: number; match: string }[] {
+  const found: { detector: SecretDetector; index: number; match: string }[] = [];
+  for (const detector of SECRET_DETECTORS) {
+    const regex = GLOBAL_REGEXES.get(detector.id) as RegExp;
+    for (const m of text.matchAll(regex)) {
+      found.push({ detector, index: m.index ?? 0, match: m[0] });
+    }
+  }
+  return found;
+}
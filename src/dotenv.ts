@@ -0,0 +1,217 @@
+import fs from "fs";
+
+export interface DotenvEntry {
+  key: string;
+  /** Value after unquoting, escape handling and interpolation. */
+  value: string;
+  /** Value exactly as written, including quotes. */
+  raw: string;
+  /** 1-based line the entry starts on. */
+  line: number;
+  exported: boolean;
+  quote?: '"' | "'" | "`";
+  /** Offsets of the whole entry, from the first character of the line to the end of the value. */
+  start: number;
+  end: number;
+  /** Offsets of the raw value (quotes included), used for in-place updates. */
+  valueStart: number;
+  valueEnd: number;
+}
+
+export interface DotenvParseOptions {
+  /** Expand `${VAR}`, `${VAR:-default}` and `$VAR` in unquoted and double-quoted values (default: true). */
+  interpolate?: boolean;
+  /** Fallback variables for interpolation when a key isn't defined earlier in the file. */
+  env?: Record<string, string | undefined>;
+}
+
+const ENTRY_START = /^[ \t]*(export[ \t]+)?([A-Za-z_][A-Za-z0-9_.-]*)[ \t]*=[ \t]*/;
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", '"': '"', "\\": "\\", $: "\\$" };
+
+/**
+ * Expands `${VAR}`, `${VAR:-default}` and `$VAR` references. `\$` stays a literal dollar sign.
+ */
+function interpolate(value: string, lookup: (key: string) => string | undefined): string {
+  return value
+    .replace(/(\\)?\$(?:\{([A-Za-z_][A-Za-z0-9_]*)(?::?-([^}]*))?\}|([A-Za-z_][A-Za-z0-9_]*))/g, (match, escaped, braced, fallback, bare) => {
+      if (escaped) return match;
+      const resolved = lookup(braced ?? bare);
+      return resolved !== undefined && resolved !== "" ? resolved : fallback ?? "";
+    })
+    .replace(/\\\$/g, "$");
+}
+
+/**
+ * Parses a dotenv file: comments, `export` prefixes, single/double/backtick quotes,
+ * multi-line quoted values, inline comments after unquoted values and interpolation.
+ */
+export function parseDotenv(source: string, options: DotenvParseOptions = {}): DotenvEntry[] {
+  const entries: DotenvEntry[] = [];
+  const defined: Record<string, string> = {};
+  const lookup = (key: string) => (key in defined ? defined[key] : options.env?.[key]);
+
+  let offset = 0;
+  let line = 1;
+
+  while (offset < source.length) {
+    const newline = source.indexOf("\n", offset);
+    const lineEnd = newline === -1 ? source.length : newline;
+    const text = source.slice(offset, lineEnd);
+    const m = text.match(ENTRY_START);
+
+    // Blank lines, comments and anything that isn't KEY=value
+    if (!m) {
+      offset = lineEnd + 1;
+      line++;
+      continue;
+    }
+
+    const start = offset;
+    let valueStart = offset + m[0].length;
+    const first = source[valueStart];
+    let valueEnd: number;
+    let value: string;
+    let quote: DotenvEntry["quote"];
+
+    if (first === '"' || first === "'" || first === "`") {
+      quote = first;
+      let i = valueStart + 1;
+      while (i < source.length && source[i] !== quote) i += quote !== "'" && source[i] === "\\" ? 2 : 1;
+
+      if (i >= source.length) {
+        // Unterminated quote: treat the rest of the line as an unquoted value
+        quote = undefined;
+        valueEnd = lineEnd;
+        value = text.slice(m[0].length).trim();
+      } else {
+        valueEnd = i + 1;
+        const inner = source.slice(valueStart + 1, i).replace(/\r\n/g, "\n");
+        value = quote === '"' ? inner.replace(/\\(.)/g, (esc, ch) => DOUBLE_QUOTE_ESCAPES[ch] ?? esc) : inner;
+      }
+    } else {
+      const rest = text.slice(m[0].length);
+      // A "#" after whitespace starts a comment, including one right after "KEY= "
+      const comment = /[ \t]$/.test(m[0]) && rest.startsWith("#") ? 0 : rest.search(/[ \t]#/);
+      const rawValue = (comment === -1 ? rest : rest.slice(0, comment)).replace(/[ \t\r]+$/, "");
+      // Empty values sit right after the "=", so filling them in keeps the spacing before a comment
+      if (!rawValue) valueStart = offset + m[0].replace(/[ \t]+$/, "").length;
+      valueEnd = valueStart + rawValue.length;
+      value = rawValue;
+    }
+
+    if (quote !== "'" && quote !== "`") {
+      value = options.interpolate === false ? value.replace(/\\\$/g, "$") : interpolate(value, lookup);
+    }
+
+    const key = m[2];
+    defined[key] = value;
+    entries.push({
+      key,
+      value,
+      raw: source.slice(valueStart, valueEnd),
+      line,
+      exported: Boolean(m[1]),
+      quote,
+      start,
+      end: valueEnd,
+      valueStart,
+      valueEnd,
+    });
+
+    // Continue on the line after the value (quoted values may span several lines)
+    const next = source.indexOf("\n", valueEnd);
+    line += (source.slice(start, next === -1 ? source.length : next).match(/\n/g) ?? []).length + 1;
+    offset = next === -1 ? source.length : next + 1;
+  }
+
+  return entries;
+}
+
+/**
+ * Parses a dotenv file into a key/value map. Later definitions win.
+ */
+export function parseDotenvValues(source: string, options: DotenvParseOptions = {}): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const entry of parseDotenv(source, options)) values[entry.key] = entry.value;
+  return values;
+}
+
+/**
+ * Reads an env file into a key/value map. Missing files yield an empty map.
+ */
+export function readDotenvFile(file: string, options: DotenvParseOptions = {}): Record<string, string> {
+  if (!fs.existsSync(file)) return {};
+  return parseDotenvValues(fs.readFileSync(file, "utf-8"), options);
+}
+
+/**
+ * Quotes and escapes a value so parseDotenv() reads back exactly the same string.
+ */
+export function formatDotenvValue(value: string): string {
+  if (/^[A-Za-z0-9_\-.,/:@+=%]*$/.test(value)) return value;
+  if (!/['\n\r]/.test(value)) return `'${value}'`;
+  return (
+    '"' +
+    value
+      .replace(/\\/g, "\\\\")
+      .replace(/"/g, '\\"')
+      .replace(/\$/g, "\\$")
+      .replace(/\n/g, "\\n")
+      .replace(/\r/g, "\\r") +
+    '"'
+  );
+}
+
+/**
+ * Sets variables in a dotenv source. Existing keys are updated in place (keeping
+ * their `export` prefix and inline comments), new keys are appended, optionally
+ * under a comment block.
+ */
+export function setDotenvValues(
+  source: string,
+  values: Record<string, string>,
+  options: { comment?: string } = {}
+): string {
+  const entries = parseDotenv(source, { interpolate: false });
+  const lastByKey = new Map(entries.map((e) => [e.key, e]));
+
+  let updated = source;
+  const replacements = [...lastByKey.values()]
+    .filter((e) => e.key in values)
+    .sort((a, b) => b.valueStart - a.valueStart);
+  for (const entry of replacements) {
+    updated = updated.slice(0, entry.valueStart) + formatDotenvValue(values[entry.key]) + updated.slice(entry.valueEnd);
+  }
+
+  const added = Object.keys(values).filter((key) => !lastByKey.has(key));
+  if (added.length === 0) return updated;
+
+  const block = [
+    ...(options.comment ? options.comment.split("\n").map((l) => (l ? `# ${l}` : "#")) : []),
+    ...added.map((key) => `${key}=${formatDotenvValue(values[key])}`),
+  ].join("\n");
+
+  if (!updated) return block + "\n";
+  const separator = updated.endsWith("\n\n") ? "" : updated.endsWith("\n") ? "\n" : "\n\n";
+  return updated + separator + block + "\n";
+}
+
+/**
+ * Writes variables to an env file through setDotenvValues(), creating it if needed.
+ */
+export function updateDotenvFile(file: string, values: Record<string, string>, options: { comment?: string } = {}) {
+  const source = fs.existsSync(file) ? fs.readFileSync(file, "utf-8") : "";
+  fs.writeFileSync(file, setDotenvValues(source, values, options));
+}
+
+/**
+ * Removes every value from a dotenv source, keeping keys, comments and layout.
+ */
+export function stripDotenvValues(source: string): string {
+  let stripped = source;
+  for (const entry of parseDotenv(source, { interpolate: false }).reverse()) {
+    stripped = stripped.slice(0, entry.valueStart) + stripped.slice(entry.valueEnd);
+  }
+  return stripped;
+}
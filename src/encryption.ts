@@ -0,0 +1,178 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { DotenvParseOptions, parseDotenvValues } from "./dotenv";
+
+/** Default key file, next to the env files it unlocks. Never commit it. */
+export const KEY_FILE = ".env.key";
+
+/** Environment variable holding the key, e.g. in CI. Takes precedence over the key file. */
+export const KEY_ENV_VAR = "ENV_GUARDIAN_KEY";
+
+export const ENCRYPTED_SUFFIX = ".enc";
+
+const ALGORITHM = "aes-256-gcm";
+const HEADER = "env-guardian:v1:aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+export interface EncryptionKey {
+  key: Buffer;
+  /** Short fingerprint stored with the ciphertext to tell which key a file needs. */
+  id: string;
+  /** Where the key came from: the env var name or the key file path. */
+  source: string;
+}
+
+export interface LoadKeyOptions {
+  /** Key file to read (default: .env.key in the working directory). */
+  keyFile?: string;
+  /** Environment to look for ENV_GUARDIAN_KEY in (default: process.env). */
+  env?: Record<string, string | undefined>;
+}
+
+function keyId(key: Buffer): string {
+  return crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+}
+
+/**
+ * Parses a key written as 64 hex characters or base64 of 32 bytes.
+ */
+export function parseKey(text: string, source: string): EncryptionKey {
+  const trimmed = text.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, "hex") : Buffer.from(trimmed, "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${source} doesn't contain a valid key (expected 32 bytes as base64 or hex)`);
+  }
+  return { key, id: keyId(key), source };
+}
+
+/**
+ * A new random key, base64-encoded as it is stored in key files.
+ */
+export function generateKey(): string {
+  return crypto.randomBytes(KEY_BYTES).toString("base64");
+}
+
+/**
+ * Loads the key from ENV_GUARDIAN_KEY, or else from the key file. Undefined when neither exists.
+ */
+export function loadKey(options: LoadKeyOptions = {}): EncryptionKey | undefined {
+  const fromEnv = (options.env ?? process.env)[KEY_ENV_VAR];
+  if (fromEnv) return parseKey(fromEnv, KEY_ENV_VAR);
+
+  const keyFile = options.keyFile ?? KEY_FILE;
+  if (!fs.existsSync(keyFile)) return undefined;
+  return parseKey(fs.readFileSync(keyFile, "utf-8"), keyFile);
+}
+
+/**
+ * Writes a key file readable only by its owner.
+ */
+export function saveKey(keyFile: string, key: string) {
+  fs.writeFileSync(keyFile, key + "\n", { mode: 0o600 });
+  fs.chmodSync(keyFile, 0o600);
+}
+
+/**
+ * Encrypts an env file's contents with AES-256-GCM. The output is a short text file that
+ * can be committed: a comment, then `header:key id:iv:auth tag:ciphertext` on one line.
+ */
+export function encryptEnv(plaintext: string, key: EncryptionKey): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key.key, iv);
+  cipher.setAAD(Buffer.from(`${HEADER}:${key.id}`));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()]);
+
+  return [
+    "# Encrypted by env-guardian. Decrypt with 'env-guardian decrypt' or run with 'env-guardian run -- <command>'.",
+    [HEADER, key.id, iv.toString("base64"), cipher.getAuthTag().toString("base64"), ciphertext.toString("base64")].join(":"),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Decrypts the output of encryptEnv(). Throws when the file was encrypted with another
+ * key or has been tampered with.
+ */
+export function decryptEnv(encrypted: string, key: EncryptionKey): string {
+  const line = encrypted.split(/\r?\n/).find((l) => l.startsWith(HEADER + ":"));
+  const parts = line?.slice(HEADER.length + 1).split(":") ?? [];
+  if (parts.length !== 4) {
+    throw new Error("not an env-guardian encrypted file");
+  }
+
+  const [id, iv, tag, ciphertext] = parts;
+  if (id !== key.id) {
+    throw new Error(`encrypted with key ${id}, but the key from ${key.source} is ${key.id}`);
+  }
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key.key, Buffer.from(iv, "base64"));
+    decipher.setAAD(Buffer.from(`${HEADER}:${id}`));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf-8");
+  } catch {
+    throw new Error("the file has been modified or corrupted and can't be decrypted");
+  }
+}
+
+/**
+ * Path of the encrypted copy of an env file: `.env` -> `.env.enc`.
+ */
+export function encryptedPath(file: string): string {
+  return file + ENCRYPTED_SUFFIX;
+}
+
+/**
+ * Path of the plaintext env file for an encrypted one: `.env.enc` -> `.env`.
+ */
+export function decryptedPath(file: string): string {
+  return file.endsWith(ENCRYPTED_SUFFIX) ? file.slice(0, -ENCRYPTED_SUFFIX.length) : file + ".decrypted";
+}
+
+/**
+ * Decrypts an encrypted env file in memory and parses its variables.
+ */
+export function readEncryptedDotenv(
+  file: string,
+  key: EncryptionKey,
+  options: DotenvParseOptions = {}
+): Record<string, string> {
+  try {
+    return parseDotenvValues(decryptEnv(fs.readFileSync(file, "utf-8"), key), options);
+  } catch (e) {
+    throw new Error(`${file}: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+/**
+ * Encrypted env files in a directory, e.g. `.env.enc` and `.env.production.enc`.
+ */
+export function findEncryptedEnvFiles(dir: string): string[] {
+  return fs
+    .readdirSync(dir)
+    .filter((name) => name.startsWith(".env") && name.endsWith(ENCRYPTED_SUFFIX))
+    .sort()
+    .map((name) => path.join(dir, name));
+}
+
+/**
+ * Re-encrypts files under a new key. Every file is decrypted before anything is written,
+ * so a file that doesn't open with the old key leaves them all untouched.
+ */
+export function rotateKey(files: string[], oldKey: EncryptionKey, newKey: EncryptionKey) {
+  const decrypted = files.map((file) => {
+    try {
+      return { file, plaintext: decryptEnv(fs.readFileSync(file, "utf-8"), oldKey) };
+    } catch (e) {
+      throw new Error(`${file}: ${e instanceof Error ? e.message : e}`);
+    }
+  });
+
+  for (const { file, plaintext } of decrypted) {
+    const temp = `${file}.tmp`;
+    fs.writeFileSync(temp, encryptEnv(plaintext, newKey));
+    fs.renameSync(temp, file);
+  }
+}
@@ -0,0 +1,85 @@
+import { Severity } from "./index";
+
+export type Charset = "hex" | "alphanumeric" | "base64";
+
+export interface EntropyThresholds {
+  /** Minimum Shannon entropy (bits per character) for hex strings. */
+  hex: number;
+  /** Minimum Shannon entropy for letters and digits only. */
+  alphanumeric: number;
+  /** Minimum Shannon entropy for base64 / base64url strings. */
+  base64: number;
+  /** Literals shorter than this are never scored. */
+  minLength: number;
+}
+
+export interface EntropyScore {
+  charset: Charset;
+  entropy: number;
+  /** Threshold actually applied, lowered for strings too short to reach the configured one. */
+  threshold: number;
+  high: boolean;
+}
+
+export const DEFAULT_ENTROPY_THRESHOLDS: EntropyThresholds = {
+  hex: 3.0,
+  alphanumeric: 3.9,
+  base64: 4.5,
+  minLength: 16,
+};
+
+const CHARSETS: { charset: Charset; regex: RegExp; size: number }[] = [
+  { charset: "hex", regex: /^[0-9a-f]+$/i, size: 16 },
+  { charset: "alphanumeric", regex: /^[A-Za-z0-9]+$/, size: 62 },
+  { charset: "base64", regex: /^[A-Za-z0-9+/_-]+={0,2}$/, size: 64 },
+];
+
+/**
+ * Shannon entropy of a string in bits per character.
+ */
+export function shannonEntropy(str: string): number {
+  if (!str) return 0;
+  const counts = new Map<string, number>();
+  for (const ch of str) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / str.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Scores a literal against the threshold of its character set. Strings containing
+ * other characters (spaces, dots, path separators mixed with punctuation) are not scored.
+ */
+export function scoreEntropy(
+  str: string,
+  thresholds: EntropyThresholds = DEFAULT_ENTROPY_THRESHOLDS
+): EntropyScore | undefined {
+  if (str.length < thresholds.minLength) return undefined;
+
+  const match = CHARSETS.find((c) => c.regex.test(str));
+  if (!match) return undefined;
+
+  // Entropy can't exceed log2 of the length, so short keys get a proportionally lower bar
+  const reachable = Math.log2(Math.min(str.length, match.size)) * 0.9;
+  const threshold = Math.round(Math.min(thresholds[match.charset], reachable) * 100) / 100;
+  const entropy = Math.round(shannonEntropy(str) * 100) / 100;
+
+  // Plain words and camelCase sentences: letters only, no digits or symbols
+  const wordLike = match.charset !== "hex" && /^[A-Za-z]+$/.test(str);
+
+  return { charset: match.charset, entropy, threshold, high: entropy >= threshold && !wordLike };
+}
+
+/**
+ * Severity of a high-entropy literal: random values get more severe the longer they are.
+ */
+export function entropySeverity(str: string, score: EntropyScore | undefined): Severity | undefined {
+  if (!score?.high) return undefined;
+  if (str.length >= 40) return "CRITICAL";
+  if (str.length >= 20) return "HIGH";
+  return "MEDIUM";
+}
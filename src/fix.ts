@@ -0,0 +1,300 @@
+import fs from "fs";
+import path from "path";
+import { EnvScanResult, isEnvFile, redactValue, splitIdentifier } from "./index";
+
+export interface FixEdit {
+  file: string;
+  /** 1-based line of the replaced literal. */
+  line: number;
+  /** Offsets of the quoted literal in the file. */
+  start: number;
+  end: number;
+  replacement: string;
+  envName: string;
+  value: string;
+}
+
+export interface FixPlan {
+  edits: FixEdit[];
+  /** Variables to add to the env file. */
+  envVars: Record<string, string>;
+  skipped: { file: string; line: number; variable: string; reason: string }[];
+}
+
+/**
+ * Env lookup expressions per file extension.
+ */
+const ENV_LOOKUPS: Record<string, (name: string) => string> = {
+  js: (name) => `process.env.${name}`,
+  jsx: (name) => `process.env.${name}`,
+  ts: (name) => `process.env.${name}`,
+  tsx: (name) => `process.env.${name}`,
+  vue: (name) => `process.env.${name}`,
+  py: (name) => `os.environ["${name}"]`,
+  rb: (name) => `ENV["${name}"]`,
+  php: (name) => `getenv("${name}")`,
+  go: (name) => `os.Getenv("${name}")`,
+  java: (name) => `System.getenv("${name}")`,
+  kt: (name) => `System.getenv("${name}")`,
+  cs: (name) => `Environment.GetEnvironmentVariable("${name}")`,
+  sh: (name) => `"\${${name}}"`,
+  bash: (name) => `"\${${name}}"`,
+};
+
+/**
+ * Lines that replace part of a file so it imports what its env lookups need.
+ */
+interface ImportChange {
+  /** 0-based index of the first replaced line. */
+  at: number;
+  removed: number;
+  lines: string[];
+}
+
+/**
+ * Adds `import os` after the shebang, the encoding line, the module docstring
+ * and `from __future__` imports, which Python requires to come first.
+ */
+function addPythonImport(lines: string[]): ImportChange | undefined {
+  if (lines.some((l) => /^\s*import\s+(?:[\w.]+\s*,\s*)*os\b/.test(l))) return undefined;
+
+  const skipComments = (i: number) => {
+    while (i < lines.length && /^\s*(?:#.*)?$/.test(lines[i])) i++;
+    return i;
+  };
+
+  let at = 0;
+  if (lines[at]?.startsWith("#!")) at++;
+  if (/^\s*#.*coding[:=]/.test(lines[at] ?? "")) at++;
+
+  let i = skipComments(at);
+  const docstring = /^[rRuU]?("""|''')/.exec(lines[i] ?? "");
+  if (docstring) {
+    let end = i;
+    if (!lines[i].slice(docstring[0].length).includes(docstring[1])) {
+      do end++;
+      while (end < lines.length - 1 && !lines[end].includes(docstring[1]));
+    }
+    at = end + 1;
+    i = skipComments(at);
+  }
+
+  while (/^from\s+__future__\s+import\b/.test(lines[i] ?? "")) {
+    let end = i;
+    if (lines[i].includes("(")) while (end < lines.length - 1 && !lines[end].includes(")")) end++;
+    at = end + 1;
+    i = skipComments(at);
+  }
+
+  return { at, removed: 0, lines: ["import os"] };
+}
+
+/**
+ * Adds "os" to the first import block, turns a single import into a block, or
+ * adds an import after the package clause.
+ */
+function addGoImport(lines: string[]): ImportChange | undefined {
+  const importPath = (spec: string) => /^\s*(?:[\w.]+\s+)?"([^"]*)"/.exec(spec)?.[1];
+  let block = -1;
+  let single = -1;
+
+  for (let i = 0, inBlock = false; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (inBlock) {
+      if (line.startsWith(")")) inBlock = false;
+      else if (importPath(line) === "os") return undefined;
+    } else if (/^import\s*\(/.test(line)) {
+      inBlock = true;
+      if (block === -1) block = i;
+    } else if (/^import\s/.test(line)) {
+      if (importPath(line.slice("import".length)) === "os") return undefined;
+      if (single === -1) single = i;
+    }
+  }
+
+  if (block !== -1) {
+    // Keep gofmt's order within the first group of the block.
+    let at = block + 1;
+    while (at < lines.length && !/^\s*(?:\)|$)/.test(lines[at]) && (importPath(lines[at]) ?? "") < "os") at++;
+    return { at, removed: 0, lines: ['\t"os"'] };
+  }
+  if (single !== -1) {
+    const spec = lines[single].trim().slice("import".length).trim();
+    const specs = (importPath(spec) ?? "") < "os" ? [spec, '"os"'] : ['"os"', spec];
+    return { at: single, removed: 1, lines: ["import (", ...specs.map((s) => `\t${s}`), ")"] };
+  }
+  const pkg = lines.findIndex((l) => /^package\s/.test(l));
+  return { at: pkg + 1, removed: 0, lines: ["", 'import "os"'] };
+}
+
+/**
+ * Imports a language needs before the env lookup works, added when missing.
+ */
+const REQUIRED_IMPORTS: Partial<Record<string, (lines: string[]) => ImportChange | undefined>> = {
+  py: addPythonImport,
+  go: addGoImport,
+};
+
+/**
+ * Normalizes a variable name to UPPER_SNAKE_CASE (apiKey -> API_KEY).
+ */
+export function toUpperSnakeCase(name: string): string {
+  return splitIdentifier(name.replace(/[^A-Za-z0-9_\-\s]/g, "_"))
+    .join("_")
+    .toUpperCase()
+    .replace(/^(\d)/, "_$1");
+}
+
+function extensionOf(file: string): string {
+  return path.extname(file).slice(1).toLowerCase();
+}
+
+/**
+ * Finds the quoted literal holding `value` that starts on the given line.
+ */
+function findLiteral(source: string, line: number, value: string): { start: number; end: number } | undefined {
+  let lineStart = 0;
+  for (let i = 1; i < line; i++) lineStart = source.indexOf("\n", lineStart) + 1;
+  const lineEnd = source.indexOf("\n", lineStart) === -1 ? source.length : source.indexOf("\n", lineStart);
+
+  let best: { start: number; end: number } | undefined;
+  for (const quote of ['"', "'", "`"]) {
+    if (quote === "`" && value.includes("${")) continue;
+    const start = source.indexOf(quote + value + quote, lineStart);
+    if (start === -1 || start > lineEnd) continue;
+    if (!best || start < best.start) best = { start, end: start + value.length + 2 };
+  }
+  return best;
+}
+
+/**
+ * Plans replacing every hardcoded suggestion value with an env lookup.
+ * `existingEnv` holds variables already defined in the target env file; empty
+ * ones (e.g. copied from .env.example) are filled in place.
+ */
+export function planFixes(results: EnvScanResult, existingEnv: Record<string, string>): FixPlan {
+  const plan: FixPlan = { edits: [], envVars: {}, skipped: [] };
+  const sources = new Map<string, string>();
+
+  for (const [variable, entry] of Object.entries(results)) {
+    for (const s of entry.suggested) {
+      const skip = (reason: string) => plan.skipped.push({ file: s.file, line: s.line, variable, reason });
+
+      if (s.rule === "public-env-secret") {
+        skip("rename it without the public prefix and only read it in server code");
+        continue;
+      }
+      if (isEnvFile(path.basename(s.file))) {
+        skip("already in an env file: keep it out of git or commit it encrypted");
+        continue;
+      }
+      if (!s.value) continue;
+      if (s.value.includes("\n")) {
+        skip("multi-line values have to be moved by hand");
+        continue;
+      }
+      const lookup = ENV_LOOKUPS[extensionOf(s.file)];
+      if (!lookup) {
+        skip(`no env lookup known for .${extensionOf(s.file)} files`);
+        continue;
+      }
+
+      const envName = toUpperSnakeCase(variable);
+      const known = plan.envVars[envName] ?? (existingEnv[envName] || undefined);
+      if (known !== undefined && known !== s.value) {
+        skip(`${envName} already holds a different value`);
+        continue;
+      }
+
+      if (!sources.has(s.file)) sources.set(s.file, fs.readFileSync(s.file, "utf-8"));
+      const literal = findLiteral(sources.get(s.file) as string, s.line, s.value);
+      if (!literal) {
+        skip("could not locate the literal");
+        continue;
+      }
+      if (plan.edits.some((e) => e.file === s.file && e.start === literal.start)) continue;
+
+      plan.edits.push({ file: s.file, line: s.line, ...literal, replacement: lookup(envName), envName, value: s.value });
+      if (!existingEnv[envName]) plan.envVars[envName] = s.value;
+    }
+  }
+
+  return plan;
+}
+
+function replaceLiterals(source: string, edits: FixEdit[]): string {
+  let fixed = source;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    fixed = fixed.slice(0, edit.start) + edit.replacement + fixed.slice(edit.end);
+  }
+  return fixed;
+}
+
+function importChange(file: string, lines: string[], edits: FixEdit[]): ImportChange | undefined {
+  const addImport = REQUIRED_IMPORTS[extensionOf(file)];
+  return addImport && edits.length > 0 ? addImport(lines) : undefined;
+}
+
+/**
+ * Applies the edits of one file to its source, adding required imports.
+ */
+export function applyEdits(file: string, source: string, edits: FixEdit[]): string {
+  const lines = replaceLiterals(source, edits).split("\n");
+  const change = importChange(file, lines, edits);
+  if (change) lines.splice(change.at, change.removed, ...change.lines);
+  return lines.join("\n");
+}
+
+/**
+ * Groups edits by file.
+ */
+export function editsByFile(plan: FixPlan): Map<string, FixEdit[]> {
+  const byFile = new Map<string, FixEdit[]>();
+  for (const edit of plan.edits) {
+    byFile.set(edit.file, [...(byFile.get(edit.file) ?? []), edit]);
+  }
+  return byFile;
+}
+
+/**
+ * Renders a unified-style diff of the planned edits. Removed values are redacted.
+ */
+export function renderFixDiff(plan: FixPlan, root: string): string {
+  const out: string[] = [];
+
+  for (const [file, edits] of editsByFile(plan)) {
+    const source = fs.readFileSync(file, "utf-8");
+    const oldLines = source.split("\n");
+    const newLines = replaceLiterals(source, edits).split("\n");
+    const change = importChange(file, newLines, edits);
+    const relative = path.relative(root, file);
+    const hunks: { line: number; text: string[] }[] = [];
+    let shift = 0;
+
+    if (change) {
+      const removed = oldLines.slice(change.at, change.at + change.removed);
+      const from = change.removed ? `${change.at + 1},${change.removed}` : `${change.at},0`;
+      hunks.push({
+        line: change.at + 0.5,
+        text: [
+          `@@ -${from} +${change.at + 1},${change.lines.length} @@`,
+          ...removed.map((l) => `-${l}`),
+          ...change.lines.map((l) => `+${l}`),
+        ],
+      });
+      shift = change.lines.length - change.removed;
+    }
+
+    for (const line of new Set(edits.map((e) => e.line))) {
+      const after = change && line > change.at ? shift : 0;
+      let removed = oldLines[line - 1];
+      for (const e of edits) removed = removed.split(e.value).join(redactValue(e.value));
+      hunks.push({ line, text: [`@@ -${line} +${line + after} @@`, `-${removed}`, `+${newLines[line - 1]}`] });
+    }
+
+    out.push(`--- a/${relative}`, `+++ b/${relative}`);
+    for (const hunk of hunks.sort((a, b) => a.line - b.line)) out.push(...hunk.text);
+  }
+
+  return out.join("\n");
+}
@@ -0,0 +1,106 @@
+import fs from "fs";
+import path from "path";
+import { detectSecret } from "./detectors";
+
+/**
+ * A framework whose bundler inlines env vars with certain prefixes into client code.
+ */
+export interface Framework {
+  id: string;
+  name: string;
+  /** Dependencies in package.json that identify it. */
+  packages: string[];
+  /** Env var prefixes it ships to the browser. */
+  publicPrefixes: string[];
+}
+
+export const FRAMEWORKS: Framework[] = [
+  { id: "next", name: "Next.js", packages: ["next"], publicPrefixes: ["NEXT_PUBLIC_"] },
+  { id: "vite", name: "Vite", packages: ["vite"], publicPrefixes: ["VITE_"] },
+  { id: "create-react-app", name: "Create React App", packages: ["react-scripts"], publicPrefixes: ["REACT_APP_"] },
+  { id: "nuxt", name: "Nuxt", packages: ["nuxt"], publicPrefixes: ["NUXT_PUBLIC_"] },
+  { id: "expo", name: "Expo", packages: ["expo"], publicPrefixes: ["EXPO_PUBLIC_"] },
+  { id: "sveltekit", name: "SvelteKit", packages: ["@sveltejs/kit"], publicPrefixes: ["PUBLIC_"] },
+  { id: "astro", name: "Astro", packages: ["astro"], publicPrefixes: ["PUBLIC_"] },
+];
+
+/**
+ * Prefixes checked when no framework is detected. A bare `PUBLIC_` is too common
+ * (PUBLIC_KEY) to flag without knowing the project uses SvelteKit or Astro.
+ */
+export const DEFAULT_PUBLIC_PREFIXES = ["NEXT_PUBLIC_", "VITE_", "REACT_APP_", "NUXT_PUBLIC_", "EXPO_PUBLIC_"];
+
+/**
+ * Names meant to be public even though they look like keys.
+ */
+const PUBLIC_BY_DESIGN = /PUBLISHABLE|PUBLIC_?KEY|ANON_?KEY|SITE_?KEY|CLIENT_?ID|MEASUREMENT_?ID/i;
+
+/**
+ * Names that only ever hold server-side secrets.
+ */
+const SECRET_NAME =
+  /SECRET|PRIVATE|PASSW(?:OR)?D|PWD|CREDENTIAL|SERVICE_?ROLE|(?:ACCESS|AUTH|REFRESH|ADMIN|API|BEARER|SESSION)_?TOKEN|(?:DATABASE|DB|MONGO(?:DB)?|POSTGRES|REDIS)_?(?:URL|URI|PASS)|CONNECTION_?STRING|(?:SIGNING|ENCRYPTION|JWT)_?KEY|WEBHOOK/i;
+
+const frameworkCache = new Map<string, Framework[]>();
+
+/**
+ * Frameworks listed in the dependencies of the nearest package.json at or above `dir`.
+ */
+export function detectFrameworks(dir: string): Framework[] {
+  const absolute = path.resolve(dir);
+  const cached = frameworkCache.get(absolute);
+  if (cached) return cached;
+
+  let detected: Framework[];
+  const packageJson = path.join(absolute, "package.json");
+  if (fs.existsSync(packageJson)) {
+    let dependencies: Record<string, unknown> = {};
+    try {
+      const pkg = JSON.parse(fs.readFileSync(packageJson, "utf-8"));
+      dependencies = { ...pkg.dependencies, ...pkg.devDependencies, ...pkg.peerDependencies };
+    } catch {
+      // A broken package.json is reported by npm, not by us
+    }
+    detected = FRAMEWORKS.filter((f) => f.packages.some((p) => p in dependencies));
+  } else {
+    const parent = path.dirname(absolute);
+    detected = parent === absolute ? [] : detectFrameworks(parent);
+  }
+
+  frameworkCache.set(absolute, detected);
+  return detected;
+}
+
+/**
+ * Forgets detected frameworks, e.g. after a package.json changed in watch mode.
+ */
+export function clearFrameworkCache() {
+  frameworkCache.clear();
+}
+
+/**
+ * Prefixes shipped to the browser for files in `dir`: those of the detected
+ * frameworks, or DEFAULT_PUBLIC_PREFIXES when none is detected.
+ */
+export function publicEnvPrefixes(dir: string): string[] {
+  const frameworks = detectFrameworks(dir);
+  if (frameworks.length === 0) return DEFAULT_PUBLIC_PREFIXES;
+  return [...new Set(frameworks.flatMap((f) => f.publicPrefixes))];
+}
+
+/**
+ * The public prefix a variable name starts with, if any.
+ */
+export function publicPrefixOf(name: string, prefixes: string[]): string | undefined {
+  return prefixes.filter((p) => name.startsWith(p) && name.length > p.length).sort((a, b) => b.length - a.length)[0];
+}
+
+/**
+ * Whether a public variable holds something that must stay on the server: a secret-like
+ * name (NEXT_PUBLIC_STRIPE_SECRET_KEY), or a value matching a CRITICAL provider format.
+ */
+export function isExposedSecret(name: string, prefix: string, value?: string): boolean {
+  const unprefixed = name.slice(prefix.length);
+  if (SECRET_NAME.test(unprefixed) && !PUBLIC_BY_DESIGN.test(unprefixed)) return true;
+  return value !== undefined && detectSecret(value)?.severity === "CRITICAL";
+}
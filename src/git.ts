@@ -0,0 +1,147 @@
+import { execFileSync } from "child_process";
+import fs from "fs";
+import path from "path";
+
+export interface GitFile {
+  /** Absolute path of the file in the working tree. */
+  file: string;
+  content: string;
+}
+
+const HOOK_MARKER = "# env-guardian pre-commit hook";
+
+/**
+ * Runs a git command and returns its raw stdout.
+ */
+function git(args: string[], cwd: string, input?: string): Buffer {
+  return execFileSync("git", args, {
+    cwd,
+    input,
+    maxBuffer: 1024 * 1024 * 512,
+    stdio: ["pipe", "pipe", "pipe"],
+  });
+}
+
+/**
+ * Splits NUL-separated git output (from `-z`) into paths.
+ */
+function splitNul(output: Buffer): string[] {
+  return output.toString("utf-8").split("\0").filter(Boolean);
+}
+
+export function getRepoRoot(cwd: string): string {
+  return git(["rev-parse", "--show-toplevel"], cwd).toString("utf-8").trim();
+}
+
+/**
+ * Reads many blobs with a single `git cat-file --batch` process.
+ * Objects are given in any form git understands, e.g. `:path` for the index.
+ */
+function readBlobs(objects: string[], cwd: string): (string | undefined)[] {
+  if (objects.length === 0) return [];
+
+  const output = git(["cat-file", "--batch"], cwd, objects.join("\n") + "\n");
+  const contents: (string | undefined)[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < objects.length; i++) {
+    const headerEnd = output.indexOf(0x0a, offset);
+    const header = output.subarray(offset, headerEnd).toString("utf-8");
+    offset = headerEnd + 1;
+
+    if (header.endsWith(" missing")) {
+      contents.push(undefined);
+      continue;
+    }
+
+    const size = Number(header.split(" ")[2]);
+    contents.push(output.subarray(offset, offset + size).toString("utf-8"));
+    offset += size + 1; // content is followed by a newline
+  }
+
+  return contents;
+}
+
+/**
+ * Returns the staged (index) contents of every added, copied, modified or renamed file.
+ */
+export function getStagedFiles(cwd: string, filter: (file: string) => boolean): GitFile[] {
+  const root = getRepoRoot(cwd);
+  const paths = splitNul(
+    git(["diff", "--cached", "--name-only", "--diff-filter=ACMR", "-z"], root)
+  ).filter((p) => filter(path.join(root, p)));
+
+  const contents = readBlobs(paths.map((p) => `:${p}`), root);
+  const files: GitFile[] = [];
+  paths.forEach((p, i) => {
+    const content = contents[i];
+    if (content !== undefined) files.push({ file: path.join(root, p), content });
+  });
+  return files;
+}
+
+/**
+ * Returns the working tree contents of files changed since `ref`, including untracked files.
+ */
+export function getChangedFilesSince(
+  ref: string,
+  cwd: string,
+  filter: (file: string) => boolean
+): GitFile[] {
+  // A ref starting with "-" would be read as an option by git
+  if (ref.startsWith("-")) throw new Error(`invalid ref "${ref}": refs can't start with "-"`);
+  const root = getRepoRoot(cwd);
+  try {
+    git(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`], root);
+  } catch {
+    throw new Error(`unknown ref "${ref}"`);
+  }
+
+  const changed = splitNul(git(["diff", "--name-only", "--diff-filter=ACMR", "-z", ref, "--"], root));
+  const untracked = splitNul(git(["ls-files", "--others", "--exclude-standard", "-z"], root));
+
+  return [...new Set([...changed, ...untracked])]
+    .map((p) => path.join(root, p))
+    .filter((file) => filter(file) && fs.existsSync(file))
+    .map((file) => ({ file, content: fs.readFileSync(file, "utf-8") }));
+}
+
+/**
+ * Writes a pre-commit hook that scans staged files. Existing hooks that were not
+ * written by env-guardian are only replaced with `force`.
+ */
+export function installPreCommitHook(
+  cwd: string,
+  scanArgs: string[],
+  force = false
+): { hookPath: string; replaced: boolean } {
+  const hooksDir = path.resolve(
+    cwd,
+    git(["rev-parse", "--git-path", "hooks"], cwd).toString("utf-8").trim()
+  );
+  const hookPath = path.join(hooksDir, "pre-commit");
+
+  let replaced = false;
+  if (fs.existsSync(hookPath)) {
+    const existing = fs.readFileSync(hookPath, "utf-8");
+    if (!existing.includes(HOOK_MARKER) && !force) {
+      throw new Error(`${hookPath} already exists. Re-run with --force to replace it.`);
+    }
+    replaced = true;
+  }
+
+  const command = ["scan", "--staged", ...scanArgs].join(" ");
+  const hook = `#!/bin/sh
+${HOOK_MARKER}
+if command -v env-guardian >/dev/null 2>&1; then
+  exec env-guardian ${command}
+else
+  exec npx --no-install env-guardian ${command}
+fi
+`;
+
+  fs.mkdirSync(hooksDir, { recursive: true });
+  fs.writeFileSync(hookPath, hook, { mode: 0o755 });
+  fs.chmodSync(hookPath, 0o755);
+  return { hookPath, replaced };
+}
@@ -0,0 +1,62 @@
+const compiled = new Map<string, RegExp>();
+
+/**
+ * Converts a gitignore-style glob to a regex matched against `/`-separated relative paths.
+ *
+ * - `*` and `?` never cross a `/`, `**` does, `{a,b}` alternates and `[...]` is a character class
+ * - patterns without a `/` match at any depth (`*.test.ts`), others from the root (`src/*.ts`)
+ * - a pattern matching a directory also matches everything inside it (`fixtures`, `dist/`)
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const cached = compiled.get(pattern);
+  if (cached) return cached;
+
+  let glob = pattern.trim().replace(/\\/g, "/").replace(/^\.\//, "");
+  const anchored = glob.startsWith("/") || glob.replace(/\/+$/, "").includes("/");
+  glob = glob.replace(/^\/+/, "").replace(/\/+$/, "");
+
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      const slashAfter = glob[i + 2] === "/";
+      source += slashAfter ? "(?:.*/)?" : ".*";
+      i += slashAfter ? 2 : 1;
+    } else if (ch === "*") {
+      source += "[^/]*";
+    } else if (ch === "?") {
+      source += "[^/]";
+    } else if (ch === "[") {
+      const end = glob.indexOf("]", i + 1);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += "[" + glob.slice(i + 1, end).replace(/^!/, "^").replace(/\\/g, "\\\\") + "]";
+        i = end;
+      }
+    } else if (ch === "{") {
+      braces++;
+      source += "(?:";
+    } else if (ch === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (ch === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += ch.replace(/[.+^${}()|\\]/g, "\\$&");
+    }
+  }
+
+  const regex = new RegExp(`^${anchored ? "" : "(?:.*/)?"}${source}(?:/.*)?$`);
+  compiled.set(pattern, regex);
+  return regex;
+}
+
+/**
+ * Whether a path relative to the scan root matches any of the globs.
+ */
+export function matchesGlob(relativePath: string, patterns: string[]): boolean {
+  const normalized = relativePath.replace(/\\/g, "/").replace(/^\.\//, "");
+  return patterns.some((pattern) => globToRegExp(pattern).test(normalized));
+}
@@ -0,0 +1,182 @@
+import { spawn } from "child_process";
+import path from "path";
+import readline from "readline";
+import { Confidence } from "./detectors";
+import { EnvScanResult, ScanOptions, Severity, isScannableFile, scanSource } from "./index";
+
+export interface HistoryFinding {
+  commit: string;
+  author: string;
+  date: string;
+  subject: string;
+  /** Absolute path of the file in the repository. */
+  file: string;
+  line: number;
+  column: number;
+  snippet: string;
+  variable: string;
+  severity?: Severity;
+  rule?: string;
+  confidence?: Confidence;
+  entropy?: number;
+}
+
+export interface HistoryScanOptions extends ScanOptions {
+  /** Revision range understood by `git log`, e.g. `main..feature` (default: HEAD). */
+  range?: string;
+  maxCommits?: number;
+}
+
+export interface HistoryScanResult {
+  commits: number;
+  findings: HistoryFinding[];
+}
+
+interface CommitInfo {
+  commit: string;
+  author: string;
+  date: string;
+  subject: string;
+}
+
+const COMMIT_MARKER = "\x01";
+
+/**
+ * Strips the `b/` prefix and any quoting git adds to a diff path.
+ */
+function parseDiffPath(raw: string): string {
+  const unquoted = raw.startsWith('"') && raw.endsWith('"') ? raw.slice(1, -1) : raw;
+  return unquoted.replace(/^b\//, "");
+}
+
+/**
+ * Runs the scanner over the lines a commit added to a file. Added lines are scanned
+ * as one block, then each finding is mapped back to its real line number.
+ */
+function scanAddedLines(
+  commit: CommitInfo,
+  file: string,
+  lines: string[],
+  lineNumbers: number[],
+  findings: HistoryFinding[],
+  options: ScanOptions
+) {
+  const result: EnvScanResult = scanSource(file, lines.join("\n"), {}, options);
+  for (const [variable, entry] of Object.entries(result)) {
+    for (const s of entry.suggested) {
+      findings.push({
+        ...commit,
+        file,
+        line: lineNumbers[s.line - 1] ?? s.line,
+        column: s.column,
+        snippet: s.snippet,
+        variable,
+        severity: s.severity,
+        rule: s.rule,
+        confidence: s.confidence,
+        entropy: s.entropy,
+      });
+    }
+  }
+}
+
+/**
+ * Walks the commits of a local repository and scans every added line with the same
+ * matchers as a regular scan. Output of `git log -p` is streamed, so large histories
+ * are never held in memory at once.
+ */
+export function scanGitHistory(root: string, options: HistoryScanOptions = {}): Promise<HistoryScanResult> {
+  // A range starting with "-" would be read as an option by git log
+  if (options.range?.startsWith("-")) {
+    return Promise.reject(new Error(`invalid range "${options.range}": ranges can't start with "-"`));
+  }
+
+  const args = [
+    "-c",
+    "core.quotepath=off",
+    "log",
+    "-p",
+    "-U0",
+    "--no-color",
+    "--no-ext-diff",
+    "--diff-filter=ACMR",
+    `--format=${COMMIT_MARKER}%H%x00%an <%ae>%x00%aI%x00%s`,
+  ];
+  if (options.maxCommits) args.push(`--max-count=${options.maxCommits}`);
+  args.push(options.range ?? "HEAD", "--");
+
+  return new Promise((resolve, reject) => {
+    const child = spawn("git", args, { cwd: root, stdio: ["ignore", "pipe", "pipe"] });
+    const findings: HistoryFinding[] = [];
+    let stderr = "";
+    let commits = 0;
+
+    let commit: CommitInfo | undefined;
+    let file: string | undefined;
+    let inHunk = false;
+    let nextLine = 0;
+    let added: string[] = [];
+    let lineNumbers: number[] = [];
+
+    const flushFile = () => {
+      if (commit && file && added.length > 0) {
+        scanAddedLines(commit, file, added, lineNumbers, findings, options);
+      }
+      file = undefined;
+      inHunk = false;
+      added = [];
+      lineNumbers = [];
+    };
+
+    child.stderr.on("data", (chunk) => (stderr += chunk));
+    child.on("error", reject);
+
+    const rl = readline.createInterface({ input: child.stdout, crlfDelay: Infinity });
+    rl.on("line", (line) => {
+      if (line.startsWith(COMMIT_MARKER)) {
+        flushFile();
+        const [hash, author, date, subject] = line.slice(1).split("\0");
+        commit = { commit: hash, author, date, subject };
+        commits++;
+        return;
+      }
+
+      if (line.startsWith("diff --git ")) {
+        flushFile();
+        return;
+      }
+
+      if (!inHunk && line.startsWith("+++ ")) {
+        const target = line.slice(4);
+        const relative = target === "/dev/null" ? undefined : parseDiffPath(target);
+        file = relative && isScannableFile(relative, options) ? path.join(root, relative) : undefined;
+        return;
+      }
+
+      if (line.startsWith("@@")) {
+        inHunk = true;
+        nextLine = Number(line.match(/\+(\d+)/)?.[1] ?? 0);
+        return;
+      }
+
+      if (!inHunk || !file) return;
+
+      if (line.startsWith("+")) {
+        added.push(line.slice(1));
+        lineNumbers.push(nextLine++);
+      } else if (line.startsWith(" ")) {
+        nextLine++;
+      }
+    });
+
+    // "close" fires after stdout has ended, so every line has been handled by then
+    child.on("close", (code) => {
+      if (code !== 0) {
+        reject(new Error(stderr.trim() || `git log exited with code ${code}`));
+        return;
+      }
+      flushFile();
+      resolve({ commits, findings });
+    });
+  });
+}
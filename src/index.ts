@@ -1,32 +1,233 @@
 import fs from "fs";
 import path from "path";
+import { Confidence, SECRET_DETECTORS, findSecrets } from "./detectors";
+import { parseDotenv } from "./dotenv";
+import { DEFAULT_ENTROPY_THRESHOLDS, EntropyThresholds, entropySeverity, scoreEntropy } from "./entropy";
+import { analyzeJavaScript } from "./javascript";
+import { isExposedSecret, publicEnvPrefixes, publicPrefixOf } from "./frameworks";
+import { EnvGuardianPlugin } from "./plugins";
+import { CompiledRule, CustomRule, compileRules, matchesRule } from "./rules";
+import { Suppression, findSuppression, parseSuppressions } from "./suppressions";
+
+export type Severity = "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
+
+export interface RuleInfo {
+  id: string;
+  name: string;
+  description: string;
+  confidence: Confidence;
+}
+
+/**
+ * Generic detectors that flag a suggestion from its variable name or value shape,
+ * keyed by their stable rule ID.
+ */
+export const DETECTORS = {
+  "suspicious-name": {
+    name: "SuspiciousVariableName",
+    description: "Variable name matches a known sensitive naming pattern (secret, token, password, ...).",
+    confidence: "medium",
+  },
+  "suspicious-value": {
+    name: "SuspiciousLiteralValue",
+    description: "Hardcoded literal looks like a token, key or JWT.",
+    confidence: "medium",
+  },
+  "high-entropy-string": {
+    name: "HighEntropyString",
+    description: "Hardcoded literal is random enough (Shannon entropy) to be a generated key or token.",
+    confidence: "medium",
+  },
+  "public-env-secret": {
+    name: "PublicEnvSecret",
+    description:
+      "Secret behind a prefix the bundler ships to the browser (NEXT_PUBLIC_, VITE_, REACT_APP_, NUXT_PUBLIC_, EXPO_PUBLIC_, PUBLIC_).",
+    confidence: "high",
+  },
+  "known-value": {
+    name: "KnownSecretValue",
+    description: "A secret value from one of your .env files appears verbatim outside of them (scan --known-values).",
+    confidence: "high",
+  },
+  "sensitive-heuristic": {
+    name: "SensitiveHeuristic",
+    description: "Variable name or value loosely resembles sensitive data.",
+    confidence: "low",
+  },
+} as const;
+
+export type DetectorId = keyof typeof DETECTORS;
+
+/**
+ * Every rule a finding can report: the generic detectors, the provider catalog and
+ * any custom rules, minus disabled ones.
+ */
+export function getRules(options: ScanOptions = {}): RuleInfo[] {
+  const disabled = new Set(options.disabledRules);
+  return [
+    ...(Object.keys(DETECTORS) as DetectorId[]).map((id) => ({ id, ...DETECTORS[id] })),
+    ...SECRET_DETECTORS.map(({ id, name, description, confidence }) => ({
+      id,
+      name,
+      description,
+      confidence,
+    })),
+    ...getCustomRules(options).map(({ id, description, confidence }) => ({
+      id,
+      name: id,
+      description,
+      confidence,
+    })),
+  ].filter((r) => !disabled.has(r.id));
+}
+
+const customRuleCache = new WeakMap<ScanOptions, CompiledRule[]>();
+
+/**
+ * Compiled custom rules from the config and plugins, cached per options object.
+ */
+function getCustomRules(options: ScanOptions): CompiledRule[] {
+  let rules = customRuleCache.get(options);
+  if (!rules) {
+    rules = compileRules([
+      ...(options.rules ?? []),
+      ...(options.plugins ?? []).flatMap((p) => p.rules ?? []),
+    ]);
+    customRuleCache.set(options, rules);
+  }
+  return rules;
+}
+
+/**
+ * Where a match was found. Line and column are 1-based and refer to the original file.
+ */
+export interface EnvLocation {
+  file: string;
+  line: number;
+  column: number;
+  snippet: string;
+}
+
+export interface SuggestedLocation extends EnvLocation {
+  value?: string;
+  severity?: Severity;
+  /** ID of the rule that fired, see getRules(). */
+  rule?: string;
+  confidence?: Confidence;
+  /** Shannon entropy of the value, when it could be scored. */
+  entropy?: number;
+}
+
+export interface SuppressedLocation extends SuggestedLocation {
+  /** The `env-guardian-ignore` comment that silenced it. */
+  suppression: Suppression;
+}
 
 export interface EnvScanResultEntry {
-  usage: string[];
-  suggested: {
-    file: string;
-    value?: string;
-    severity?: "LOW" | "MEDIUM" | "HIGH" | "CRITICAL";
-  }[];
+  usage: EnvLocation[];
+  suggested: SuggestedLocation[];
+  /** Suggestions silenced by an inline comment, kept for auditing. */
+  suppressed?: SuppressedLocation[];
+}
+
+export interface ScanOptions {
+  /** Overrides for the per-charset entropy thresholds. */
+  entropy?: Partial<EntropyThresholds>;
+  /** User-defined detection rules. */
+  rules?: CustomRule[];
+  /** IDs of built-in or custom rules that should never fire. */
+  disabledRules?: string[];
+  /** Loaded plugin modules, see loadPlugins(). */
+  plugins?: EnvGuardianPlugin[];
+  /** Files larger than this many bytes are skipped (default: 1 MiB). */
+  maxFileSize?: number;
+  /**
+   * Env var prefixes bundlers expose to client code (default: those of the frameworks
+   * in the file's nearest package.json, see publicEnvPrefixes()).
+   */
+  publicEnvPrefixes?: string[];
 }
 
 export type EnvScanResult = Record<string, EnvScanResultEntry>;
 
 const IGNORE_DIRS = new Set(["node_modules", ".git", "dist", "build", ".next"]);
 
+export const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * Whether a directory is never descended into (dependencies, VCS data, build output).
+ */
+export function isIgnoredDirectory(name: string): boolean {
+  return IGNORE_DIRS.has(name);
+}
+
+/**
+ * Whether a file looks binary: like git, any NUL byte in the first 8000 bytes.
+ */
+export function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Replace text with spaces, keeping newlines so offsets still match the original file.
+ */
+function blankOut(text: string) {
+  return text.replace(/[^\n]/g, " ");
+}
+
 /**
- * Remove comments from source code for easier regex matching.
+ * Remove comments from source code for easier regex matching. String literals are
+ * matched first and kept, so `//` inside a string (every URL) is not a comment.
  */
 function stripComments(src: string) {
-  return src
-    .replace(/\/\*[\s\S]*?\*\//g, "") // block comments
-    .replace(/\/\/.*$/gm, ""); // line comments
+  return src.replace(
+    /("(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`)|\/\*[\s\S]*?\*\/|\/\/.*$/gm,
+    (match, str) => str ?? blankOut(match)
+  );
+}
+
+/**
+ * Masks a secret value, keeping only a short prefix as a hint.
+ */
+export function redactValue(value: string): string {
+  if (value.length <= 8) return "*".repeat(value.length);
+  return value.slice(0, 4) + "*".repeat(Math.min(value.length - 4, 12));
+}
+
+/**
+ * Maps string offsets to 1-based line/column positions.
+ */
+function createLocator(src: string) {
+  const lineStarts = [0];
+  for (let i = 0; i < src.length; i++) if (src[i] === "\n") lineStarts.push(i + 1);
+  const lines = src.split("\n");
+
+  return (file: string, offset: number, secret?: string): EnvLocation => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+
+    let snippet = lines[lo].trim();
+    if (secret) snippet = snippet.split(secret).join(redactValue(secret));
+    snippet = snippet.replace(/(['"`])([^'"`]{9,})\1/g, (_, q, v) => q + redactValue(v) + q);
+    if (snippet.length > 80) snippet = snippet.slice(0, 77) + "...";
+
+    return { file, line: lo + 1, column: offset - lineStarts[lo] + 1, snippet };
+  };
+}
+
+function sameLocation(a: EnvLocation, b: EnvLocation) {
+  return a.file === b.file && a.line === b.line && a.column === b.column;
 }
 
 /**
  * Split a variable name into lowercase words (camelCase, snake_case, etc.)
  */
-function splitIdentifier(name: string): string[] {
+export function splitIdentifier(name: string): string[] {
   return name
     .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
     .split(/[\s_\-]+/)
@@ -38,13 +239,16 @@ function splitIdentifier(name: string): string[] {
  * Common file matchers for different languages/configs.
  */
 const MATCHERS: Record<string, RegExp[]> = {
-  // JS/TS (+ variants mapped)
-  js: [/(const|let|var)\s+([A-Za-z_$][A-Za-z0-9_$]*)\s*=\s*([\s\S]*?)(?=;|\n|$)/g],
-  ts: [/(const|let|var)\s+([A-Za-z_$][A-Za-z0-9_$]*)\s*=\s*([\s\S]*?)(?:;|\n|$)/g],
+  // JS/TS (+ variants mapped) are parsed with the TypeScript compiler, see javascript.ts
+  js: [],
+  ts: [],
+
+  // Env files are where secrets belong; see scanSource() for what is reported in them
+  dotenv: [],
 
   // Vue.js
   vue: [
-    /(const|let|var)\s+([A-Za-z_$][A-Za-z0-9_$]*)\s*=\s*([\s\S]*?)(?:;|\n|$)/g,
+    /(?:const|let|var)\s+([A-Za-z_$][A-Za-z0-9_$]*)\s*=\s*([\s\S]*?)(?:;|\n|$)/g,
     /([A-Za-z_$][A-Za-z0-9_$]*)\s*:\s*(['"`][^'"`]+['"`]|process\.env\.[A-Z0-9_]+)/g,
   ],
   
@@ -88,6 +292,65 @@ const MATCHERS: Record<string, RegExp[]> = {
   azure: [/([A-Z0-9_]+):\s*(.+)/gi],
 };
 
+const NAME = "(?<name>[A-Za-z_][A-Za-z0-9_]*)";
+const QUOTED_NAME = `\\s*['"\`]${NAME}['"\`]\\s*`;
+
+const JS_USAGE = [
+  new RegExp(`\\b(?:process|Bun)\\.env\\.${NAME}`, "g"),
+  new RegExp(`\\b(?:process|Bun)\\.env\\[${QUOTED_NAME}\\]`, "g"),
+  new RegExp(`\\bimport\\.meta\\.env\\.${NAME}`, "g"),
+  new RegExp(`\\bimport\\.meta\\.env\\[${QUOTED_NAME}\\]`, "g"),
+  new RegExp(`\\bDeno\\.env\\.get\\(${QUOTED_NAME}\\)`, "g"),
+];
+
+const SHELL_USAGE = [
+  /\$(?<name>[A-Z0-9_]+)/g, // $VAR
+  /\$\{(?<name>[A-Za-z_][A-Za-z0-9_]*)(?:[:?+-][^}]*)?\}/g, // ${VAR}, ${VAR:-default}
+];
+
+// GitHub Actions expressions, e.g. ${{ secrets.API_KEY }}
+const CI_USAGE = [/\$\{\{\s*(?:secrets|env|vars)\.(?<name>[A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g];
+
+const JVM_USAGE = [new RegExp(`\\bSystem\\.getenv\\(${QUOTED_NAME}\\)`, "g")];
+
+/**
+ * Env reads per language. The `name` group holds the variable being read.
+ */
+const USAGE_PATTERNS: Record<string, RegExp[]> = {
+  js: JS_USAGE,
+  ts: JS_USAGE,
+  vue: JS_USAGE,
+  py: [
+    new RegExp(`\\bos\\.environ\\[${QUOTED_NAME}\\]`, "g"),
+    new RegExp(`\\bos\\.(?:environ\\.get|getenv)\\(${QUOTED_NAME}[,)]`, "g"),
+  ],
+  rb: [
+    new RegExp(`\\bENV\\[${QUOTED_NAME}\\]`, "g"),
+    new RegExp(`\\bENV\\.fetch\\(${QUOTED_NAME}[,)]`, "g"),
+  ],
+  php: [new RegExp(`\\bgetenv\\(${QUOTED_NAME}[,)]`, "g"), new RegExp(`\\$_ENV\\[${QUOTED_NAME}\\]`, "g")],
+  java: JVM_USAGE,
+  kt: JVM_USAGE,
+  go: [new RegExp(`\\bos\\.(?:Getenv|LookupEnv)\\(${QUOTED_NAME}\\)`, "g")],
+  cs: [new RegExp(`\\bEnvironment\\.GetEnvironmentVariable\\(${QUOTED_NAME}[,)]`, "g")],
+  sh: SHELL_USAGE,
+  bash: SHELL_USAGE,
+  dockerfile: SHELL_USAGE,
+  yml: [...SHELL_USAGE, ...CI_USAGE],
+  yaml: [...SHELL_USAGE, ...CI_USAGE],
+};
+
+/**
+ * Destructured reads, e.g. `const { API_KEY, PORT = "3000" } = process.env`.
+ */
+const JS_DESTRUCTURING = /\b(?:const|let|var)\s*\{([^}]*)\}\s*=\s*(?:process\.env|Bun\.env|import\.meta\.env)\b/g;
+
+/**
+ * Initializers that read from the environment are never hardcoded secrets.
+ */
+const ENV_READ =
+  /process\.env|Bun\.env|import\.meta\.env|Deno\.env|os\.environ|os\.getenv|\bENV(?:\[|\.fetch)|getenv\(|\$_ENV|System\.getenv|os\.(?:Getenv|LookupEnv)|GetEnvironmentVariable|\$\{\{|\$[A-Z0-9_]+/;
+
 /**
  * Quick check if a variable name looks sensitive.
  */
@@ -133,14 +396,7 @@ function extractStringLiteral(raw: string): string | null {
  * Heuristics for spotting secret-like string values.
  */
 function looksLikeSecretLiteral(str: string): boolean {
-  const noSpace = !/\s/.test(str);
   if (/^[A-Za-z0-9-_]+\.[A-Za-z0-9-_]+\.[A-Za-z0-9-_]+$/.test(str)) return true; // JWT
-  if (
-    str.length >= 20 &&
-    [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((r) => r.test(str)).length >= 2 &&
-    noSpace
-  )
-    return true; // Long mixed token
   if (/^https?:\/\//i.test(str) && !/localhost|127\.0\.0\.1/i.test(str)) {
     return /(api|auth|oauth|db|graphql|issuer|login|token|endpoint)/i.test(str);
   }
@@ -218,11 +474,9 @@ const SUSPICIOUS_NAMES = [
 ] as const;
 
 /**
- * Suspicious literal values.
+ * Suspicious literal values. Long random tokens are scored by entropy instead.
  */
 const SUSPICIOUS_VALUES = [
-  { regex: /^[A-Za-z0-9-_]{40,}$/, severity: "CRITICAL" },
-  { regex: /^[A-Za-z0-9-_]{20,}$/, severity: "HIGH" },
   { regex: /^[A-Za-z0-9-_]+\.[A-Za-z0-9-_]+\.[A-Za-z0-9-_]+$/, severity: "HIGH" },
 ] as const;
 
@@ -254,84 +508,410 @@ function getSeverityFromRules<T extends { regex: RegExp; severity: keyof typeof
 /**
  * Add variable usage in result set.
  */
-function addUsage(m: RegExpMatchArray, result: EnvScanResult, file: string) {
-  const name = m[1];
+function addUsage(name: string, result: EnvScanResult, location: EnvLocation) {
   result[name] ??= { usage: [], suggested: [] };
-  if (!result[name].usage.includes(file)) result[name].usage.push(file);
+  if (!result[name].usage.some((u) => sameLocation(u, location))) result[name].usage.push(location);
+}
+
+/**
+ * Appends the findings of `source` to `target`, variable by variable.
+ */
+export function mergeResults(target: EnvScanResult, source: EnvScanResult): EnvScanResult {
+  for (const [name, entry] of Object.entries(source)) {
+    target[name] ??= { usage: [], suggested: [] };
+    target[name].usage.push(...entry.usage);
+    target[name].suggested.push(...entry.suggested);
+    if (entry.suppressed) (target[name].suppressed ??= []).push(...entry.suppressed);
+  }
+  return target;
 }
 
 /**
  * Remove Vue template/style blocks before scanning.
  */
 function stripVueSections(src: string) {
-  return src.replace(/<template[\s\S]*?<\/template>/gi, "").replace(/<style[\s\S]*?<\/style>/gi, "");
+  return src
+    .replace(/<template[\s\S]*?<\/template>/gi, blankOut)
+    .replace(/<style[\s\S]*?<\/style>/gi, blankOut);
 }
 
 /**
- * Scans a directory for environment variable usage and secrets.
+ * `.env`, `.env.production.local`, ... but not encrypted copies or key files.
  */
-export function scanForEnv(dir: string): EnvScanResult {
-  const result: EnvScanResult = {};
-  const entries = fs.readdirSync(dir, { withFileTypes: true });
-
-  for (const entry of entries) {
-    if (entry.isDirectory()) {
-      if (IGNORE_DIRS.has(entry.name)) continue;
-      const nested = scanForEnv(path.join(dir, entry.name));
-      for (const k in nested) {
-        result[k] ??= { usage: [], suggested: [] };
-        result[k].usage.push(...nested[k].usage);
-        result[k].suggested.push(...nested[k].suggested);
+export function isEnvFile(fileName: string): boolean {
+  return /^\.env(?:\.[\w-]+)*$/.test(fileName) && !/\.(?:enc|key)$/.test(fileName);
+}
+
+/**
+ * Resolves which MATCHERS entry (built-in or from a plugin) applies to a file name, if any.
+ */
+function getMatcherKey(fileName: string, options: ScanOptions = {}): string | undefined {
+  if (isEnvFile(fileName)) return "dotenv";
+  const ext = fileName.match(/\.(\w+)$/)?.[1]?.toLowerCase();
+  if (!ext) return undefined;
+
+  const mappedExt = ext === "jsx" ? "js" : ext === "tsx" ? "ts" : ext;
+  if (MATCHERS[mappedExt]) return mappedExt;
+  return options.plugins?.some((p) => p.matchers?.[mappedExt]) ? mappedExt : undefined;
+}
+
+/**
+ * Whether a path (relative to the scan root) would be picked up by a directory scan.
+ */
+export function isScannableFile(relativePath: string, options: ScanOptions = {}): boolean {
+  const segments = relativePath.split(/[\\/]/);
+  if (segments.slice(0, -1).some(isIgnoredDirectory)) return false;
+  return getMatcherKey(segments[segments.length - 1], options) !== undefined;
+}
+
+interface Candidate {
+  rule: string;
+  severity: Severity;
+  confidence: Confidence;
+  /** Provider and custom rules explain a finding better than generic heuristics. */
+  specific: boolean;
+}
+
+/**
+ * Scans the contents of a single file and merges its matches into `result`.
+ */
+export function scanSource(
+  file: string,
+  source: string,
+  result: EnvScanResult = {},
+  options: ScanOptions = {}
+): EnvScanResult {
+  const mappedExt = getMatcherKey(path.basename(file), options);
+  if (!mappedExt) return result;
+
+  const thresholds = { ...DEFAULT_ENTROPY_THRESHOLDS, ...options.entropy };
+  const disabled = new Set(options.disabledRules);
+  const customRules = getCustomRules(options).filter((r) => !disabled.has(r.id));
+  const plugins = options.plugins ?? [];
+
+  const locate = createLocator(source);
+
+  // JS/TS/JSX/TSX go through a real parser instead of the regex matchers
+  const analysis = mappedExt === "js" || mappedExt === "ts" ? analyzeJavaScript(file, source) : undefined;
+  const suppressions = parseSuppressions(source, mappedExt, analysis?.comments);
+
+  /**
+   * Records a suggestion, or files it under `suppressed` when an inline comment covers it.
+   */
+  const report = (key: string, finding: SuggestedLocation) => {
+    result[key] ??= { usage: [], suggested: [] };
+    const suppression = findSuppression(suppressions, finding.line, finding.rule);
+    if (suppression) (result[key].suppressed ??= []).push({ ...finding, suppression });
+    else result[key].suggested.push(finding);
+  };
+
+  const prefixes = disabled.has("public-env-secret")
+    ? []
+    : options.publicEnvPrefixes ?? publicEnvPrefixes(path.dirname(path.resolve(file)));
+  /** Reports a public variable holding a secret. True when it is one. */
+  const reportPublic = (name: string, offset: number, value?: string): boolean => {
+    const prefix = publicPrefixOf(name, prefixes);
+    if (!prefix || !isExposedSecret(name, prefix, value)) return false;
+    const location = locate(file, offset, value || undefined);
+    if ([...(result[name]?.suggested ?? []), ...(result[name]?.suppressed ?? [])].some((s) => sameLocation(s, location))) {
+      return true;
+    }
+    report(name, {
+      ...location,
+      value: value || undefined,
+      severity: "CRITICAL",
+      rule: "public-env-secret",
+      confidence: DETECTORS["public-env-secret"].confidence,
+    });
+    return true;
+  };
+
+  // Env files hold secrets by design, so only values that are unmistakably keys are
+  // reported: provider formats and random strings, which shouldn't be committed either
+  if (mappedExt === "dotenv") {
+    for (const { key, value, start, valueStart } of parseDotenv(source, { interpolate: false })) {
+      if (reportPublic(key, start, value) || !value) continue;
+
+      const score = scoreEntropy(value, thresholds);
+      const provider = SECRET_DETECTORS.find((d) => !disabled.has(d.id) && d.regex.test(value));
+      const entropy = disabled.has("high-entropy-string") ? undefined : entropySeverity(value, score);
+      if (!provider && !entropy) continue;
+      report(key, {
+        ...locate(file, valueStart, value),
+        value,
+        severity: provider?.severity ?? entropy,
+        rule: provider?.id ?? "high-entropy-string",
+        confidence: provider?.confidence ?? DETECTORS["high-entropy-string"].confidence,
+        entropy: score?.entropy,
+      });
+    }
+    return result;
+  }
+
+  let code = stripComments(source);
+  if (mappedExt === "vue") code = stripVueSections(code);
+
+  // -------------------- USAGE --------------------
+  const reads: { name: string; offset: number }[] = [];
+  const read = (name: string, offset: number) => {
+    addUsage(name, result, locate(file, offset));
+    reads.push({ name, offset });
+  };
+  for (const r of analysis?.reads ?? []) read(r.name, r.offset);
+
+  const usagePatterns = [
+    ...(analysis ? [] : USAGE_PATTERNS[mappedExt] ?? []),
+    ...plugins.flatMap((p) => p.usagePatterns ?? []),
+  ];
+  for (const pat of usagePatterns) {
+    for (const m of code.matchAll(pat)) {
+      const name = m.groups?.name ?? m[1];
+      if (name) read(name, m.index ?? 0);
+    }
+  }
+  if (mappedExt === "vue") {
+    for (const m of code.matchAll(JS_DESTRUCTURING)) {
+      const start = (m.index ?? 0) + m[0].indexOf("{") + 1;
+      let offset = 0;
+      for (const part of m[1].split(",")) {
+        const name = part.match(/^\s*([A-Za-z_$][A-Za-z0-9_$]*)/)?.[1];
+        if (name) read(name, start + offset + part.indexOf(name));
+        offset += part.length + 1;
       }
-      continue;
     }
+  }
+
+  // Client code inlines public variables into the bundle wherever they are read
+  if (mappedExt === "js" || mappedExt === "ts" || mappedExt === "vue") {
+    for (const r of reads) reportPublic(r.name, r.offset);
+  }
+
+  // -------------------- SUGGESTIONS --------------------
+  const reported = new Set<string>(); // "line:rule" pairs already reported for this file
+  const reportedValues: { rule: string; value: string }[] = []; // literals already attributed to a name
+
+  /**
+   * Rates a value assigned to `key`. With `strict` (object properties, parameters),
+   * only literals are rated and generic names alone aren't enough.
+   */
+  const suggest = (key: string, initializer: string | undefined, literal: string | undefined, offset: number, strict = false) => {
+    if (initializer && ENV_READ.test(initializer)) return;
+    if (strict && literal === undefined) return;
+    const score = literal ? scoreEntropy(literal, thresholds) : undefined;
+
+    // Collect every rule that fires, from least to most specific
+    const candidates: Candidate[] = [];
+    const consider = (rule: string, severity: Severity | undefined, confidence: Confidence, specific = false) => {
+      if (severity && !disabled.has(rule)) candidates.push({ rule, severity, confidence, specific });
+    };
+    if (!strict || looksSensitiveName(key)) {
+      consider("suspicious-name", getSeverityFromRules(key, SUSPICIOUS_NAMES), DETECTORS["suspicious-name"].confidence);
+    }
+    if (literal) {
+      consider(
+        "suspicious-value",
+        getSeverityFromRules(literal, SUSPICIOUS_VALUES),
+        DETECTORS["suspicious-value"].confidence
+      );
+      consider("high-entropy-string", entropySeverity(literal, score), DETECTORS["high-entropy-string"].confidence);
+
+      const provider = SECRET_DETECTORS.find((d) => !disabled.has(d.id) && d.regex.test(literal));
+      if (provider) consider(provider.id, provider.severity, provider.confidence, true);
+    }
+    for (const rule of customRules) {
+      if (matchesRule(rule, key, literal)) consider(rule.id, rule.severity, rule.confidence, true);
+    }
+    if (candidates.length === 0 && (looksSensitiveName(key) || (literal && looksLikeSecretLiteral(literal)))) {
+      consider("sensitive-heuristic", "MEDIUM", DETECTORS["sensitive-heuristic"].confidence);
+    }
+    if (candidates.length === 0) return;
+
+    // Highest severity wins, but a specific rule is the better explanation of why
+    let severity: Severity | undefined;
+    let best = candidates[0];
+    for (const c of candidates) {
+      severity = maxSeverity(severity, c.severity);
+      if (c.specific || (!best.specific && SEVERITY_RANK[c.severity] >= SEVERITY_RANK[best.severity])) best = c;
+    }
+
+    const location = locate(file, offset, literal);
+    const known = [...(result[key]?.suggested ?? []), ...(result[key]?.suppressed ?? [])];
+    if (!known.some((s) => sameLocation(s, location))) {
+      report(key, {
+        ...location,
+        value: literal,
+        severity,
+        rule: best.rule,
+        confidence: best.confidence,
+        entropy: score?.entropy,
+      });
+      reported.add(`${location.line}:${best.rule}`);
+      if (literal) reportedValues.push({ rule: best.rule, value: literal });
+    }
+  };
 
-    const ext = entry.name.match(/\.(\w+)$/)?.[1]?.toLowerCase();
-    if (!ext) continue;
+  for (const a of analysis?.assignments ?? []) {
+    suggest(a.key, a.initializer, a.literal, a.offset, a.kind === "property" || a.kind === "parameter");
+  }
 
-    const mappedExt = ext === "jsx" ? "js" : ext === "tsx" ? "ts" : ext;
-    if (!MATCHERS[mappedExt]) continue;
+  const builtIn = analysis ? [] : MATCHERS[mappedExt] ?? [];
+  const matchers = [...builtIn, ...plugins.flatMap((p) => p.matchers?.[mappedExt] ?? [])];
 
-    const fullPath = path.join(dir, entry.name);
-    let code = stripComments(fs.readFileSync(fullPath, "utf-8"));
-    if (mappedExt === "vue") code = stripVueSections(code);
+  for (const regex of matchers) {
+    for (let m; (m = regex.exec(code)); ) {
+      const key = m.groups?.name ?? m[1];
+      const initializer = (m.groups?.value ?? m[2])?.trim();
+      if (!key) continue;
 
-    // -------------------- USAGE --------------------
-    const USAGE_PATTERNS: RegExp[] = [
-      /process\.env\.([A-Z0-9_]+)/g, // JS/TS
-      /os\.environ\[['"]([A-Z0-9_]+)['"]\]/g, // Python
-      /\$([A-Z0-9_]+)/g, // Shell
-    ];
-    for (const pat of USAGE_PATTERNS) {
-      for (const m of code.matchAll(pat)) addUsage(m, result, fullPath);
+      const literal = initializer ? extractStringLiteral(initializer) ?? undefined : undefined;
+      suggest(key, initializer, literal, m.index + Math.max(m[0].indexOf(key), 0));
     }
+  }
+
+  // -------------------- PROVIDER SECRETS --------------------
+  // Run on the original source: comment stripping would cut URLs at "//" and
+  // multi-line values (PEM blocks) never make it through the line-based matchers.
+  const valueRules = [
+    ...findSecrets(source).filter(({ detector }) => !disabled.has(detector.id)),
+    ...customRules
+      .filter((rule) => rule.search)
+      .flatMap((rule) =>
+        [...source.matchAll(rule.search as RegExp)].map((m) => ({
+          detector: rule,
+          index: m.index ?? 0,
+          match: m[0],
+        }))
+      ),
+  ];
+  for (const { detector, index, match } of valueRules) {
+    const location = locate(file, index, match);
+    if (
+      reported.has(`${location.line}:${detector.id}`) ||
+      reportedValues.some((r) => r.rule === detector.id && r.value.includes(match))
+    ) {
+      continue;
+    }
+
+    report(detector.envName, {
+      ...location,
+      value: match,
+      severity: detector.severity,
+      rule: detector.id,
+      confidence: detector.confidence,
+    });
+    reported.add(`${location.line}:${detector.id}`);
+  }
 
-    // -------------------- SUGGESTIONS --------------------
-    for (const regex of MATCHERS[mappedExt]) {
-      for (let m; (m = regex.exec(code)); ) {
-        const key = ["js", "ts"].includes(mappedExt) ? m[2] : m[1];
-        const initializer = (["js", "ts"].includes(mappedExt) ? m[3] : m[2])?.trim();
-        if (!key || (initializer && /(process\.env|os\.environ|\$[A-Z0-9_]+)/.test(initializer))) continue;
-
-        const literal = initializer ? extractStringLiteral(initializer) ?? undefined : undefined;
-
-        let severity = getSeverityFromRules(key, SUSPICIOUS_NAMES);
-        if (literal) severity = maxSeverity(severity, getSeverityFromRules(literal, SUSPICIOUS_VALUES));
-        if (!severity && (looksSensitiveName(key) || (literal && looksLikeSecretLiteral(literal)))) severity = "MEDIUM";
-
-        if (severity) {
-          result[key] ??= { usage: [], suggested: [] };
-          if (!result[key].suggested.some((s) => s.file === fullPath)) {
-            result[key].suggested.push({ 
-              file: fullPath, 
-              value: literal,
-              severity 
-            });
-          }
-        }
+  return result;
+}
+
+/**
+ * Scans a directory for environment variable usage and secrets. Binary files and files
+ * over `maxFileSize` are skipped. See scanForEnvAsync() for a parallel, cached scan.
+ */
+export function scanForEnv(dir: string, options: ScanOptions = {}): EnvScanResult {
+  const result: EnvScanResult = {};
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+  const pending = [dir];
+
+  for (let current; (current = pending.pop()) !== undefined; ) {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!isIgnoredDirectory(entry.name)) pending.push(fullPath);
+        continue;
       }
+      if (!entry.isFile() || !getMatcherKey(entry.name, options)) continue;
+      if (fs.statSync(fullPath).size > maxFileSize) continue;
+
+      const content = fs.readFileSync(fullPath);
+      if (!isBinary(content)) scanSource(fullPath, content.toString("utf-8"), result, options);
     }
   }
 
   return result;
 }
+
+// -------------------- PUBLIC API --------------------
+// Re-exported last: these modules import from this one.
+export { EnvGuardianOptions, EnvGuardianScan, Finding, scan, scanFindings, toFindings } from "./api";
+export {
+  CONFIG_FILE,
+  ConfigIssue,
+  ConfigResolver,
+  IgnoreEntry,
+  IgnoreRule,
+  ResolvedConfig,
+  SEVERITY_ORDER,
+  ScanConfig,
+  applyIgnoreRules,
+  configToScanOptions,
+  createConfigResolver,
+  filterBySeverity,
+  findConfigFiles,
+  findIgnoreEntry,
+  highestSeverity,
+  ignoreEntries,
+  isExpired,
+  isIgnored,
+  loadConfig,
+  parseExpiry,
+  parseSeverity,
+  resolveConfigFile,
+  saveConfig,
+  scanOptionsFor,
+  validateConfig,
+  validateConfigFile,
+} from "./config";
+export {
+  ENCRYPTED_SUFFIX,
+  EncryptionKey,
+  KEY_ENV_VAR,
+  KEY_FILE,
+  LoadKeyOptions,
+  decryptEnv,
+  encryptEnv,
+  generateKey,
+  loadKey,
+  parseKey,
+  readEncryptedDotenv,
+  rotateKey,
+} from "./encryption";
+export {
+  DEFAULT_PUBLIC_PREFIXES,
+  FRAMEWORKS,
+  Framework,
+  clearFrameworkCache,
+  detectFrameworks,
+  isExposedSecret,
+  publicEnvPrefixes,
+  publicPrefixOf,
+} from "./frameworks";
+export { globToRegExp, matchesGlob } from "./glob";
+export {
+  KNOWN_VALUES_MAX_FILE_SIZE,
+  KnownValue,
+  KnownValueScanOptions,
+  defaultKnownValueFiles,
+  findKnownValues,
+  isSecretValue,
+  loadKnownValues,
+  scanKnownValues,
+} from "./leaks";
+export { AsyncScanOptions, FileScanResult, ScanStats, scanForEnvAsync, streamScan } from "./scanner";
+export {
+  ENV_SCHEMA_FILE,
+  EnvSchema,
+  EnvValidationOptions,
+  EnvValidationResult,
+  EnvValue,
+  EnvVarSchema,
+  EnvVarType,
+  EnvViolation,
+  assertEnv,
+  environmentOf,
+  loadEnvSchema,
+  validateEnv,
+  validateEnvSchema,
+} from "./schema";
+export { FileSuppressions, Suppression, SuppressionKind, findSuppression, parseSuppressions } from "./suppressions";
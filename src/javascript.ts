@@ -0,0 +1,188 @@
+import ts from "typescript";
+
+export interface JsEnvRead {
+  name: string;
+  /** Offset of the whole access expression, e.g. the start of `process.env.X`. */
+  offset: number;
+}
+
+export type JsAssignmentKind = "variable" | "field" | "property" | "parameter";
+
+export interface JsAssignment {
+  /** Variable, property, field or parameter name the value is assigned to. */
+  key: string;
+  kind: JsAssignmentKind;
+  /** Offset of the name. */
+  offset: number;
+  /** Source text of the assigned expression. */
+  initializer: string;
+  /** Contents of a string or template literal, without quotes. */
+  literal?: string;
+}
+
+export interface JsComment {
+  start: number;
+  end: number;
+}
+
+export interface JsAnalysis {
+  reads: JsEnvRead[];
+  assignments: JsAssignment[];
+  /** Offsets of every comment, only collected when the file mentions `env-guardian-ignore`. */
+  comments: JsComment[];
+}
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  js: ts.ScriptKind.JS,
+  jsx: ts.ScriptKind.JSX,
+  ts: ts.ScriptKind.TS,
+  tsx: ts.ScriptKind.TSX,
+};
+
+/**
+ * Whether a node is an env object: `process.env`, `Bun.env` or `import.meta.env`.
+ */
+function isEnvObject(node: ts.Node): boolean {
+  if (!ts.isPropertyAccessExpression(node) || node.name.text !== "env") return false;
+  const target = node.expression;
+  if (ts.isIdentifier(target)) return target.text === "process" || target.text === "Bun";
+  return ts.isMetaProperty(target) && target.keywordToken === ts.SyntaxKind.ImportKeyword && target.name.text === "meta";
+}
+
+/**
+ * Drops wrappers that don't change a value: parentheses, `as`, `satisfies`, `!` and type assertions.
+ */
+function unwrap(node: ts.Expression): ts.Expression {
+  while (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isSatisfiesExpression(node) ||
+    ts.isNonNullExpression(node) ||
+    ts.isTypeAssertionExpression(node)
+  ) {
+    node = node.expression;
+  }
+  return node;
+}
+
+/**
+ * Text of a string or template literal. Template substitutions are kept as written
+ * (`${...}`) so placeholders are never mistaken for part of a secret.
+ */
+function literalText(node: ts.Expression, sourceFile: ts.SourceFile): string | undefined {
+  node = unwrap(node);
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+  if (ts.isTemplateExpression(node)) return node.getText(sourceFile).slice(1, -1);
+  return undefined;
+}
+
+/**
+ * Static name of a property, element access argument or binding.
+ */
+function staticName(node: ts.Node | undefined): string | undefined {
+  if (!node) return undefined;
+  if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) return node.text.replace(/^#/, "");
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+  if (ts.isComputedPropertyName(node)) return staticName(node.expression);
+  return undefined;
+}
+
+/**
+ * Every comment in a file, read from the trivia around each token so comment-like
+ * text inside strings, templates and regexes is left out.
+ */
+function collectComments(sourceFile: ts.SourceFile): JsComment[] {
+  const text = sourceFile.getFullText();
+  const comments = new Map<number, JsComment>();
+  const visit = (node: ts.Node) => {
+    const ranges = [
+      ...(ts.getLeadingCommentRanges(text, node.pos) ?? []),
+      ...(ts.getTrailingCommentRanges(text, node.end) ?? []),
+    ];
+    for (const range of ranges) comments.set(range.pos, { start: range.pos, end: range.end });
+    for (const child of node.getChildren(sourceFile)) visit(child);
+  };
+  visit(sourceFile);
+  return [...comments.values()].sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Parses a JS/TS/JSX/TSX file and collects env reads and every named value assignment:
+ * variable declarations, class fields (including `this.x = ...`), object properties,
+ * `obj.x = ...` assignments, default parameters and destructuring defaults.
+ */
+export function analyzeJavaScript(fileName: string, source: string): JsAnalysis {
+  const ext = fileName.match(/\.(\w+)$/)?.[1]?.toLowerCase() ?? "js";
+  const sourceFile = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, SCRIPT_KINDS[ext] ?? ts.ScriptKind.TS);
+  const analysis: JsAnalysis = {
+    reads: [],
+    assignments: [],
+    comments: source.includes("env-guardian-ignore") ? collectComments(sourceFile) : [],
+  };
+
+  const assign = (kind: JsAssignmentKind, nameNode: ts.Node, key: string | undefined, value: ts.Expression | undefined) => {
+    if (!key || !value) return;
+    analysis.assignments.push({
+      key,
+      kind,
+      offset: nameNode.getStart(sourceFile),
+      initializer: value.getText(sourceFile),
+      literal: literalText(value, sourceFile),
+    });
+  };
+
+  const visit = (node: ts.Node) => {
+    // process.env.X / import.meta.env.X
+    if (ts.isPropertyAccessExpression(node) && isEnvObject(node.expression)) {
+      analysis.reads.push({ name: node.name.text, offset: node.getStart(sourceFile) });
+    }
+    // process.env["X"]
+    else if (ts.isElementAccessExpression(node) && isEnvObject(node.expression)) {
+      const name = staticName(node.argumentExpression);
+      if (name) analysis.reads.push({ name, offset: node.getStart(sourceFile) });
+    }
+    // Deno.env.get("X")
+    else if (
+      ts.isCallExpression(node) &&
+      node.expression.getText(sourceFile).replace(/\s/g, "") === "Deno.env.get" &&
+      node.arguments.length > 0
+    ) {
+      const name = staticName(node.arguments[0]);
+      if (name) analysis.reads.push({ name, offset: node.getStart(sourceFile) });
+    }
+
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      // const { API_KEY, PORT = "3000" } = process.env
+      if (ts.isObjectBindingPattern(node.name) && isEnvObject(unwrap(node.initializer))) {
+        for (const element of node.name.elements) {
+          const name = staticName(element.propertyName ?? element.name);
+          if (name && !element.dotDotDotToken) analysis.reads.push({ name, offset: element.getStart(sourceFile) });
+        }
+      } else if (ts.isIdentifier(node.name)) {
+        assign("variable", node.name, node.name.text, node.initializer);
+      }
+    } else if (ts.isBindingElement(node) || ts.isParameter(node)) {
+      // Destructuring defaults and default parameters
+      if (ts.isIdentifier(node.name)) assign("parameter", node.name, node.name.text, node.initializer);
+    } else if (ts.isPropertyAssignment(node)) {
+      assign("property", node.name, staticName(node.name), node.initializer);
+    } else if (ts.isPropertyDeclaration(node)) {
+      assign("field", node.name, staticName(node.name), node.initializer);
+    } else if (ts.isBinaryExpression(node) && node.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      const left = node.left;
+      if (ts.isIdentifier(left)) {
+        assign("variable", left, left.text, node.right);
+      } else if (ts.isPropertyAccessExpression(left)) {
+        const kind = left.expression.kind === ts.SyntaxKind.ThisKeyword ? "field" : "property";
+        assign(kind, left.name, staticName(left.name), node.right);
+      } else if (ts.isElementAccessExpression(left)) {
+        assign("property", left.argumentExpression, staticName(left.argumentExpression), node.right);
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return analysis;
+}
@@ -0,0 +1,222 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { detectSecret } from "./detectors";
+import { readDotenvFile } from "./dotenv";
+import { scoreEntropy } from "./entropy";
+import { DETECTORS, EnvScanResult, isBinary, isEnvFile } from "./index";
+
+/**
+ * A secret from an env file, kept only as hashes so the scan never holds or prints
+ * the value after loading.
+ */
+export interface KnownValue {
+  variable: string;
+  /** Env file it was loaded from. */
+  source: string;
+  length: number;
+  /** sha256 of the value, confirming a match. */
+  hash: string;
+  /** Rolling hash of the value, finding candidate matches in one pass per length. */
+  fingerprint: number;
+}
+
+export interface KnownValueScanOptions {
+  /** Files larger than this many bytes are skipped (default: 10 MiB, bundles and source maps get big). */
+  maxFileSize?: number;
+  /** Extra check on each file (absolute path); false skips it. */
+  filter?: (file: string) => boolean;
+}
+
+export const KNOWN_VALUES_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/** Shorter values match too much unrelated text to be worth reporting. */
+const MIN_VALUE_LENGTH = 8;
+
+/** Build output is where leaked values end up, so only these are skipped. */
+const SKIPPED_DIRS = new Set(["node_modules", ".git"]);
+
+const SENSITIVE_NAME = /SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL|API_?KEY|AUTH|DSN|DATABASE_URL|CONNECTION/i;
+
+const BASE = 256;
+const MODULUS = 2147483647;
+
+function rollingHash(text: string, start: number, length: number): number {
+  let h = 0;
+  for (let i = start; i < start + length; i++) h = (h * BASE + text.charCodeAt(i)) % MODULUS;
+  return h;
+}
+
+function sha256(text: string): string {
+  return crypto.createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Whether an env value is worth looking for: long enough, not a number or flag, and
+ * either held by a sensitive name or shaped like a key.
+ */
+export function isSecretValue(name: string, value: string): boolean {
+  if (value.length < MIN_VALUE_LENGTH) return false;
+  if (/^(?:true|false|yes|no|on|off|-?\d+(?:\.\d+)?)$/i.test(value)) return false;
+  return SENSITIVE_NAME.test(name) || detectSecret(value) !== undefined || !!scoreEntropy(value)?.high;
+}
+
+/**
+ * Env files whose values are loaded by default: every `.env*` file in `dir` except
+ * templates such as .env.example.
+ */
+export function defaultKnownValueFiles(dir: string): string[] {
+  return fs
+    .readdirSync(dir)
+    .filter((name) => isEnvFile(name) && !/\.(?:example|sample|template)$/.test(name))
+    .sort()
+    .map((name) => path.join(dir, name));
+}
+
+/**
+ * Loads the secret-looking values of env files as hashes. A value defined in several
+ * files is kept once, under the first variable holding it.
+ */
+export function loadKnownValues(files: string[]): KnownValue[] {
+  const known = new Map<string, KnownValue>();
+  for (const file of files) {
+    for (const [variable, value] of Object.entries(readDotenvFile(file))) {
+      if (!isSecretValue(variable, value)) continue;
+      const hash = sha256(value);
+      if (!known.has(hash)) {
+        known.set(hash, { variable, source: file, length: value.length, hash, fingerprint: rollingHash(value, 0, value.length) });
+      }
+    }
+  }
+  return [...known.values()];
+}
+
+interface Match {
+  index: number;
+  known: KnownValue;
+}
+
+/**
+ * The line around a match, cut to a readable length, with every matched value in it
+ * masked: another secret may sit right next to this one.
+ */
+function maskedSnippet(source: string, match: Match, matches: Match[]): string {
+  const { index, known } = match;
+  const lineStart = source.lastIndexOf("\n", index - 1) + 1;
+  const newline = source.indexOf("\n", index + known.length);
+  const lineEnd = newline === -1 ? source.length : newline;
+  const from = Math.max(lineStart, index - 30);
+  const to = Math.min(lineEnd, index + known.length + 30);
+
+  let text = "";
+  let pos = from;
+  for (const m of matches) {
+    const start = Math.max(m.index, from);
+    const end = Math.min(m.index + m.known.length, to);
+    if (end <= pos || start >= to) continue;
+    // Overlapping matches share one mask
+    if (start >= pos) text += source.slice(pos, start) + "********";
+    pos = Math.max(pos, end);
+  }
+  text += source.slice(pos, to);
+  return (from > lineStart ? "..." : "") + text.trim() + (to < lineEnd ? "..." : "");
+}
+
+/**
+ * Finds every occurrence of the known values in a text, with one rolling-hash pass per
+ * distinct value length.
+ */
+export function findKnownValues(file: string, source: string, known: KnownValue[], result: EnvScanResult = {}): EnvScanResult {
+  const byLength = new Map<number, Map<number, KnownValue[]>>();
+  for (const k of known) {
+    const fingerprints = byLength.get(k.length) ?? new Map<number, KnownValue[]>();
+    fingerprints.set(k.fingerprint, [...(fingerprints.get(k.fingerprint) ?? []), k]);
+    byLength.set(k.length, fingerprints);
+  }
+
+  let lineStarts: number[] | undefined;
+  const locate = (index: number) => {
+    if (!lineStarts) {
+      lineStarts = [0];
+      for (let i = source.indexOf("\n"); i !== -1; i = source.indexOf("\n", i + 1)) lineStarts.push(i + 1);
+    }
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (lineStarts[mid] <= index) lo = mid;
+      else hi = mid - 1;
+    }
+    return { line: lo + 1, column: index - lineStarts[lo] + 1 };
+  };
+
+  const matches: Match[] = [];
+  for (const [length, fingerprints] of byLength) {
+    if (length > source.length) continue;
+    // BASE^(length - 1), to drop the leading character from the window
+    let high = 1;
+    for (let i = 1; i < length; i++) high = (high * BASE) % MODULUS;
+
+    let h = rollingHash(source, 0, length);
+    for (let i = 0; ; i++) {
+      const candidates = fingerprints.get(h);
+      const known = candidates && candidates.find((k) => k.hash === sha256(source.slice(i, i + length)));
+      if (known) matches.push({ index: i, known });
+
+      if (i + length >= source.length) break;
+      h = (h - ((source.charCodeAt(i) * high) % MODULUS) + MODULUS) % MODULUS;
+      h = (h * BASE + source.charCodeAt(i + length)) % MODULUS;
+    }
+  }
+
+  matches.sort((a, b) => a.index - b.index);
+  for (const match of matches) {
+    result[match.known.variable] ??= { usage: [], suggested: [] };
+    result[match.known.variable].suggested.push({
+      file,
+      ...locate(match.index),
+      snippet: maskedSnippet(source, match, matches),
+      severity: "CRITICAL",
+      rule: "known-value",
+      confidence: DETECTORS["known-value"].confidence,
+    });
+  }
+  return result;
+}
+
+/**
+ * Searches every text file under `root` for the known values, including build output
+ * such as dist/ and .next/ that regular scans skip. `sources` (the env files the values
+ * came from) are left out.
+ */
+export async function scanKnownValues(
+  root: string,
+  known: KnownValue[],
+  sources: string[],
+  options: KnownValueScanOptions = {}
+): Promise<EnvScanResult> {
+  const result: EnvScanResult = {};
+  if (known.length === 0) return result;
+
+  const skip = new Set(sources.map((s) => path.resolve(s)));
+  const maxFileSize = options.maxFileSize ?? KNOWN_VALUES_MAX_FILE_SIZE;
+  const pending = [path.resolve(root)];
+
+  for (let current; (current = pending.pop()) !== undefined; ) {
+    const entries = await fs.promises.readdir(current, { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) pending.push(fullPath);
+        continue;
+      }
+      if (!entry.isFile() || skip.has(fullPath) || (options.filter && !options.filter(fullPath))) continue;
+
+      const stat = await fs.promises.stat(fullPath).catch(() => undefined);
+      if (!stat || stat.size > maxFileSize) continue;
+      const content = await fs.promises.readFile(fullPath);
+      if (!isBinary(content)) findKnownValues(fullPath, content.toString("utf-8"), known, result);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,60 @@
+import path from "path";
+import { CustomRule } from "./rules";
+
+/**
+ * Shape of a plugin module listed in the `plugins` config key.
+ * Plugins may export it as `module.exports` or as the default export.
+ */
+export interface EnvGuardianPlugin {
+  name?: string;
+  /**
+   * Assignment matchers per file extension (without the dot). Use named groups
+   * `(?<name>...)` and `(?<value>...)`, or capture the name in group 1 and the value in group 2.
+   */
+  matchers?: Record<string, RegExp[]>;
+  /** Extra env var access patterns. Capture the variable in `(?<name>...)` or group 1. */
+  usagePatterns?: RegExp[];
+  /** Extra detection rules, same shape as the `rules` config key. */
+  rules?: CustomRule[];
+}
+
+/**
+ * Ensures plugin patterns can be used with exec()/matchAll() loops.
+ */
+function withGlobal(regex: RegExp): RegExp {
+  return regex.flags.includes("g") ? regex : new RegExp(regex.source, regex.flags + "g");
+}
+
+/**
+ * Loads plugin modules. Relative paths resolve from `baseDir`, bare names from node_modules.
+ */
+export function loadPlugins(specifiers: string[], baseDir: string): EnvGuardianPlugin[] {
+  return specifiers.map((specifier) => {
+    let loaded;
+    try {
+      const resolved = specifier.startsWith(".") || path.isAbsolute(specifier)
+        ? path.resolve(baseDir, specifier)
+        : require.resolve(specifier, { paths: [baseDir] });
+      loaded = require(resolved);
+    } catch (e) {
+      // Drop Node's "Require stack" lines
+      throw new Error(`Could not load plugin "${specifier}": ${(e as Error).message.split("\n")[0]}`);
+    }
+
+    const plugin: EnvGuardianPlugin = loaded?.default ?? loaded;
+    if (!plugin || typeof plugin !== "object") {
+      throw new Error(`Plugin "${specifier}" must export an object`);
+    }
+
+    return {
+      name: plugin.name ?? specifier,
+      matchers: plugin.matchers
+        ? Object.fromEntries(
+            Object.entries(plugin.matchers).map(([ext, regexes]) => [ext.toLowerCase(), regexes.map(withGlobal)])
+          )
+        : undefined,
+      usagePatterns: plugin.usagePatterns?.map(withGlobal),
+      rules: plugin.rules,
+    };
+  });
+}
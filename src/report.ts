@@ -0,0 +1,581 @@
+import path from "path";
+import { pathToFileURL } from "url";
+import { BaselineComparison } from "./baseline";
+import { EnvScanResult, RuleInfo, Severity, SuggestedLocation, SuppressedLocation, getRules, redactValue } from "./index";
+
+export type ReportFormat = "text" | "json" | "sarif" | "html" | "markdown";
+
+export const REPORT_FORMATS: ReportFormat[] = ["text", "json", "sarif", "html", "markdown"];
+
+export interface ReportOptions {
+  /** Set when the scan was compared against a baseline file. */
+  baseline?: BaselineComparison;
+  /** Rules to list in SARIF output (default: built-in rules). */
+  rules?: RuleInfo[];
+  /** Also list findings silenced by `env-guardian-ignore` comments. */
+  showSuppressed?: boolean;
+}
+
+const TOOL_NAME = "env-guardian";
+const TOOL_VERSION = "1.2.2";
+const TOOL_URI = "https://env-guardian.online/";
+
+const SEVERITY_RANK: Record<Severity, number> = { LOW: 1, MEDIUM: 2, HIGH: 3, CRITICAL: 4 };
+
+/**
+ * SARIF levels and GitHub code scanning security-severity scores per severity.
+ */
+const SARIF_LEVELS: Record<Severity, { level: "note" | "warning" | "error"; score: string }> = {
+  LOW: { level: "note", score: "2.0" },
+  MEDIUM: { level: "warning", score: "5.5" },
+  HIGH: { level: "error", score: "8.0" },
+  CRITICAL: { level: "error", score: "9.5" },
+};
+
+const SEVERITIES: Severity[] = ["CRITICAL", "HIGH", "MEDIUM", "LOW"];
+
+const SEVERITY_COLORS: Record<Severity, string> = {
+  CRITICAL: "#d73a49",
+  HIGH: "#FFA500",
+  MEDIUM: "#dbab09",
+  LOW: "#28a745",
+};
+
+const SEVERITY_ICONS: Record<Severity, string> = { CRITICAL: "🔴", HIGH: "🟠", MEDIUM: "🟡", LOW: "🟢" };
+
+/**
+ * GitHub rejects comments over 65536 characters; leave room for whatever wraps the report.
+ */
+const MARKDOWN_MAX_LENGTH = 60_000;
+
+/**
+ * Normalizes a scanned path to a forward-slash path relative to the scan root.
+ */
+function toRelative(root: string, file: string): string {
+  return path.relative(root, file).split(path.sep).join("/");
+}
+
+/**
+ * Highest severity across all suggestions of an entry.
+ */
+function entrySeverity(suggested: EnvScanResult[string]["suggested"]): Severity | undefined {
+  let max: Severity | undefined;
+  for (const s of suggested) {
+    if (s.severity && (!max || SEVERITY_RANK[s.severity] > SEVERITY_RANK[max])) max = s.severity;
+  }
+  return max;
+}
+
+/**
+ * Serializes scan results into a stable, value-redacted JSON document.
+ */
+export function toJsonReport(
+  results: EnvScanResult,
+  root: string,
+  options: ReportOptions = {}
+): string {
+  const variables = Object.keys(results)
+    .filter((name) => results[name].usage.length > 0 || results[name].suggested.length > 0)
+    .sort()
+    .map((name) => {
+      const entry = results[name];
+      return {
+        name,
+        severity: entrySeverity(entry.suggested) ?? null,
+        usage: entry.usage.map((u) => ({
+          file: toRelative(root, u.file),
+          line: u.line,
+          column: u.column,
+          snippet: u.snippet,
+        })),
+        suggested: entry.suggested.map((s) => ({
+          file: toRelative(root, s.file),
+          line: s.line,
+          column: s.column,
+          snippet: s.snippet,
+          severity: s.severity ?? null,
+          rule: s.rule ?? null,
+          confidence: s.confidence ?? null,
+          entropy: s.entropy ?? null,
+          value: s.value !== undefined ? redactValue(s.value) : null,
+          valueRedacted: s.value !== undefined,
+        })),
+      };
+    });
+
+  const bySeverity: Record<Severity, number> = { LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 };
+  for (const v of variables) {
+    for (const s of v.suggested) if (s.severity) bySeverity[s.severity]++;
+  }
+
+  const suppressed = Object.keys(results)
+    .sort()
+    .flatMap((name) =>
+      (results[name].suppressed ?? []).map((s) => ({
+        variable: name,
+        file: toRelative(root, s.file),
+        line: s.line,
+        column: s.column,
+        severity: s.severity ?? null,
+        rule: s.rule ?? null,
+        directive: `env-guardian-${s.suppression.kind}`,
+        directiveLine: s.suppression.line,
+        reason: s.suppression.reason ?? null,
+      }))
+    );
+
+  const report = {
+    tool: { name: TOOL_NAME, version: TOOL_VERSION },
+    summary: {
+      variables: variables.length,
+      usages: variables.reduce((n, v) => n + v.usage.length, 0),
+      suggestions: variables.reduce((n, v) => n + v.suggested.length, 0),
+      suppressed: suppressed.length,
+      bySeverity,
+    },
+    variables,
+    ...(options.showSuppressed && { suppressed }),
+    ...(options.baseline && {
+      baseline: {
+        suppressed: options.baseline.suppressed,
+        stale: options.baseline.stale.map(({ variable, file, rule, severity }) => ({
+          variable,
+          file,
+          rule,
+          severity: severity ?? null,
+        })),
+      },
+    }),
+  };
+
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Serializes scan results into a SARIF 2.1.0 log with one rule per detector.
+ */
+export function toSarifReport(
+  results: EnvScanResult,
+  root: string,
+  options: ReportOptions = {}
+): string {
+  const ruleInfos = options.rules ?? getRules();
+  const ruleIds = ruleInfos.map((r) => r.id);
+
+  const rules = ruleInfos.map((r) => ({
+    id: r.id,
+    name: r.name,
+    shortDescription: { text: r.description },
+    helpUri: TOOL_URI,
+    properties: { tags: ["security", "secrets"], precision: r.confidence },
+  }));
+
+  const toSarifResult = (name: string, s: SuggestedLocation | SuppressedLocation) => {
+    const severity = s.severity ?? "LOW";
+    const ruleId = s.rule ?? "sensitive-heuristic";
+    return {
+      ruleId,
+      ...(ruleIds.includes(ruleId) && { ruleIndex: ruleIds.indexOf(ruleId) }),
+      ...(options.baseline && { baselineState: "new" }),
+      // SARIF viewers show these as suppressed rather than open
+      ...("suppression" in s && {
+        suppressions: [{ kind: "inSource", ...(s.suppression.reason && { justification: s.suppression.reason }) }],
+      }),
+      level: SARIF_LEVELS[severity].level,
+      message: {
+        text: `[${severity}] "${name}" looks sensitive and should be moved to an environment variable.`,
+      },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: toRelative(root, s.file), uriBaseId: "SRCROOT" },
+            region: {
+              startLine: s.line,
+              startColumn: s.column,
+              snippet: { text: s.snippet },
+            },
+          },
+        },
+      ],
+      properties: {
+        severity,
+        "security-severity": SARIF_LEVELS[severity].score,
+        variable: name,
+        confidence: s.confidence,
+        entropy: s.entropy,
+        valueRedacted: s.value !== undefined,
+      },
+    };
+  };
+
+  const sarifResults = [];
+  for (const name of Object.keys(results).sort()) {
+    for (const s of results[name].suggested) sarifResults.push(toSarifResult(name, s));
+    if (options.showSuppressed) {
+      for (const s of results[name].suppressed ?? []) sarifResults.push(toSarifResult(name, s));
+    }
+  }
+
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: TOOL_VERSION,
+            informationUri: TOOL_URI,
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { uri: pathToFileURL(path.resolve(root) + path.sep).href },
+        },
+        results: sarifResults,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
+
+interface ReportFinding {
+  variable: string;
+  file: string;
+  line: number;
+  column: number;
+  snippet: string;
+  severity: Severity;
+  rule?: string;
+  confidence?: string;
+  value?: string;
+}
+
+/**
+ * Suggestions across all variables, most severe first, then by file and line.
+ */
+function sortedFindings(results: EnvScanResult, root: string): ReportFinding[] {
+  const findings = Object.keys(results).flatMap((variable) =>
+    results[variable].suggested.map((s) => ({
+      variable,
+      file: toRelative(root, s.file),
+      line: s.line,
+      column: s.column,
+      snippet: s.snippet,
+      severity: s.severity ?? "LOW",
+      rule: s.rule,
+      confidence: s.confidence,
+      value: s.value !== undefined ? redactValue(s.value) : undefined,
+    }))
+  );
+  return findings.sort(
+    (a, b) =>
+      SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] ||
+      (a.file < b.file ? -1 : a.file > b.file ? 1 : 0) ||
+      a.line - b.line ||
+      a.column - b.column
+  );
+}
+
+function countBySeverity(findings: ReportFinding[]): Record<Severity, number> {
+  const counts: Record<Severity, number> = { LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 };
+  for (const f of findings) counts[f.severity]++;
+  return counts;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+  return groups;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `
+body { font: 14px/1.5 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0 auto; max-width: 1100px; padding: 24px; color: #24292f; }
+h1 { margin-bottom: 0; }
+.meta { color: #57606a; margin-top: 4px; }
+.cards { display: flex; gap: 12px; flex-wrap: wrap; margin: 20px 0; }
+.card { border: 1px solid #d0d7de; border-top: 4px solid var(--color); border-radius: 6px; padding: 8px 16px; min-width: 110px; }
+.card b { display: block; font-size: 24px; }
+.controls { display: flex; gap: 16px; align-items: center; flex-wrap: wrap; margin-bottom: 16px; }
+.controls input[type=search] { padding: 4px 8px; min-width: 260px; }
+h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 4px; }
+.badge { color: #fff; background: var(--color); border-radius: 4px; padding: 1px 6px; font-size: 12px; font-weight: 600; }
+details { border: 1px solid #d0d7de; border-radius: 6px; margin: 8px 0; padding: 4px 12px; }
+summary { cursor: pointer; padding: 4px 0; }
+table { border-collapse: collapse; width: 100%; margin: 8px 0; }
+th, td { text-align: left; padding: 4px 8px; border-top: 1px solid #eaeef2; vertical-align: top; }
+code { font: 12px ui-monospace, SFMono-Regular, Menlo, monospace; background: #f6f8fa; padding: 1px 4px; border-radius: 4px; word-break: break-all; }
+.muted { color: #57606a; }
+[hidden] { display: none !important; }
+`;
+
+const HTML_SCRIPT = `
+const boxes = [...document.querySelectorAll("input[data-severity]")];
+const search = document.getElementById("search");
+function apply() {
+  const shown = new Set(boxes.filter((b) => b.checked).map((b) => b.dataset.severity));
+  const query = search.value.trim().toLowerCase();
+  const matches = (el) => !query || el.textContent.toLowerCase().includes(query);
+  document.querySelectorAll("tr[data-severity]").forEach((row) => {
+    row.hidden = !shown.has(row.dataset.severity) || !matches(row);
+  });
+  document.querySelectorAll("[data-group]").forEach((group) => {
+    group.hidden = !group.querySelector("tr[data-severity]:not([hidden])");
+  });
+  document.querySelectorAll("details.usage").forEach((d) => { d.hidden = !matches(d); });
+}
+boxes.forEach((b) => b.addEventListener("change", apply));
+search.addEventListener("input", apply);
+document.getElementById("expand").addEventListener("click", () => document.querySelectorAll("details").forEach((d) => (d.open = true)));
+document.getElementById("collapse").addEventListener("click", () => document.querySelectorAll("details").forEach((d) => (d.open = false)));
+`;
+
+/**
+ * Renders a single self-contained HTML page (no external assets) with suggestions
+ * grouped by severity and file, severity filters and collapsible usage lists.
+ */
+export function toHtmlReport(results: EnvScanResult, root: string, options: ReportOptions = {}): string {
+  const findings = sortedFindings(results, root);
+  const counts = countBySeverity(findings);
+  const badge = (severity: Severity) =>
+    `<span class="badge" style="--color: ${SEVERITY_COLORS[severity]}">${severity}</span>`;
+  const findingRow = (f: ReportFinding) => `
+          <tr data-severity="${f.severity}">
+            <td><code>${escapeHtml(f.variable)}</code></td>
+            <td>${f.line}:${f.column}</td>
+            <td>${f.rule ? `<code>${escapeHtml(f.rule)}</code>` : ""}${f.confidence ? ` <span class="muted">${escapeHtml(f.confidence)}</span>` : ""}</td>
+            <td><code>${escapeHtml(f.snippet)}</code></td>
+          </tr>`;
+
+  const sections = SEVERITIES.filter((severity) => counts[severity] > 0).map((severity) => {
+    const files = groupBy(
+      findings.filter((f) => f.severity === severity),
+      (f) => f.file
+    );
+    const fileGroups = [...files].map(
+      ([file, fileFindings]) => `
+      <details open data-group>
+        <summary><code>${escapeHtml(file)}</code> <span class="muted">${fileFindings.length} finding(s)</span></summary>
+        <table>
+          <tr><th>Variable</th><th>Line</th><th>Rule</th><th>Snippet</th></tr>${fileFindings.map(findingRow).join("")}
+        </table>
+      </details>`
+    );
+    return `
+    <section data-group>
+      <h2>${badge(severity)} ${counts[severity]} finding(s)</h2>${fileGroups.join("")}
+    </section>`;
+  });
+
+  const used = Object.keys(results)
+    .sort()
+    .filter((name) => results[name].usage.length > 0);
+  const usageLists = used.map(
+    (name) => `
+      <details class="usage">
+        <summary><code>${escapeHtml(name)}</code> <span class="muted">used in ${results[name].usage.length} place(s)</span></summary>
+        <ul>${results[name].usage
+          .map((u) => `<li><code>${escapeHtml(`${toRelative(root, u.file)}:${u.line}:${u.column}`)}</code> <span class="muted">${escapeHtml(u.snippet)}</span></li>`)
+          .join("")}</ul>
+      </details>`
+  );
+
+  const suppressed = Object.keys(results)
+    .sort()
+    .flatMap((name) => (results[name].suppressed ?? []).map((s) => ({ name, s })));
+  const suppressedRows = suppressed.map(
+    ({ name, s }) => `
+          <tr>
+            <td><code>${escapeHtml(name)}</code></td>
+            <td><code>${escapeHtml(`${toRelative(root, s.file)}:${s.line}:${s.column}`)}</code></td>
+            <td>env-guardian-${s.suppression.kind} on line ${s.suppression.line}</td>
+            <td>${escapeHtml(s.suppression.reason ?? "no reason given")}</td>
+          </tr>`
+  );
+
+  const notes = [
+    suppressed.length > 0 && !options.showSuppressed
+      ? `${suppressed.length} finding(s) suppressed by env-guardian-ignore comments (see --show-suppressed).`
+      : "",
+    options.baseline ? `${options.baseline.suppressed} known finding(s) hidden by the baseline.` : "",
+    options.baseline && options.baseline.stale.length > 0
+      ? `${options.baseline.stale.length} stale baseline entries, run 'env-guardian baseline --prune'.`
+      : "",
+  ].filter(Boolean);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>Environment Variable Report: ${escapeHtml(path.basename(path.resolve(root)))}</title>
+  <style>${HTML_STYLE}</style>
+</head>
+<body>
+  <h1>Environment Variable Report</h1>
+  <p class="meta"><code>${escapeHtml(path.resolve(root))}</code> · ${TOOL_NAME} ${TOOL_VERSION} · ${new Date().toISOString()}</p>
+
+  <div class="cards">${SEVERITIES.map(
+    (severity) => `
+    <div class="card" style="--color: ${SEVERITY_COLORS[severity]}"><b>${counts[severity]}</b>${severity}</div>`
+  ).join("")}
+    <div class="card" style="--color: #57606a"><b>${used.length}</b>variables in use</div>
+  </div>
+${notes.map((note) => `  <p class="muted">ℹ ${escapeHtml(note)}</p>`).join("\n")}
+  <div class="controls">${SEVERITIES.map(
+    (severity) => `
+    <label><input type="checkbox" data-severity="${severity}" checked> ${badge(severity)}</label>`
+  ).join("")}
+    <input type="search" id="search" placeholder="Filter by variable, file or rule">
+    <button id="expand">Expand all</button>
+    <button id="collapse">Collapse all</button>
+  </div>
+${
+  findings.length > 0
+    ? sections.join("\n")
+    : `  <p>🎉 No suggestions detected!</p>`
+}
+${
+  used.length > 0
+    ? `
+  <section>
+    <h2>Existing environment variables</h2>${usageLists.join("")}
+  </section>`
+    : ""
+}
+${
+  options.showSuppressed && suppressed.length > 0
+    ? `
+  <section>
+    <h2>Suppressed by env-guardian-ignore comments</h2>
+    <table>
+      <tr><th>Variable</th><th>Location</th><th>Directive</th><th>Reason</th></tr>${suppressedRows.join("")}
+    </table>
+  </section>`
+    : ""
+}
+  <script>${HTML_SCRIPT}</script>
+</body>
+</html>`;
+}
+
+function markdownCode(text: string): string {
+  return "`" + text.replace(/`/g, "'").replace(/\|/g, "\\|") + "`";
+}
+
+/**
+ * Renders a Markdown summary for pull request comments: counts per severity and as
+ * many findings as fit under GitHub's comment size limit.
+ */
+export function toMarkdownReport(results: EnvScanResult, root: string, options: ReportOptions = {}): string {
+  const findings = sortedFindings(results, root);
+  const counts = countBySeverity(findings);
+  const used = Object.keys(results)
+    .sort()
+    .filter((name) => results[name].usage.length > 0);
+  const suppressed = Object.keys(results)
+    .sort()
+    .flatMap((name) => (results[name].suppressed ?? []).map((s) => ({ name, s })));
+
+  const lines = [
+    "## 🛡️ Environment Variable Report",
+    "",
+    "| Severity | Findings |",
+    "| --- | ---: |",
+    ...SEVERITIES.map((severity) => `| ${SEVERITY_ICONS[severity]} ${severity} | ${counts[severity]} |`),
+    "",
+    findings.length > 0
+      ? `**${findings.length} hardcoded value(s)** in ${new Set(findings.map((f) => f.file)).size} file(s) should move to environment variables. ${used.length} variable(s) are already read from the environment.`
+      : `🎉 No suggestions detected! ${used.length} variable(s) are read from the environment.`,
+  ];
+
+  if (suppressed.length > 0 && !options.showSuppressed) {
+    lines.push("", `_${suppressed.length} finding(s) suppressed by \`env-guardian-ignore\` comments._`);
+  }
+  if (options.baseline) {
+    lines.push(
+      "",
+      `_${options.baseline.suppressed} known finding(s) hidden by the baseline` +
+        (options.baseline.stale.length > 0 ? `, ${options.baseline.stale.length} stale entries to prune._` : "._")
+    );
+  }
+
+  // Everything below is optional detail, trimmed to fit the size limit
+  const sections: string[][] = [];
+  if (findings.length > 0) {
+    sections.push([
+      "",
+      "### Findings",
+      "",
+      "| Severity | Variable | Location | Rule |",
+      "| --- | --- | --- | --- |",
+      ...findings.map(
+        (f) =>
+          `| ${SEVERITY_ICONS[f.severity]} ${f.severity} | ${markdownCode(f.variable)} | ${markdownCode(`${f.file}:${f.line}`)} | ${
+            f.rule ? markdownCode(f.rule) : ""
+          } |`
+      ),
+    ]);
+  }
+  if (options.showSuppressed && suppressed.length > 0) {
+    sections.push([
+      "",
+      "<details><summary>Suppressed by env-guardian-ignore comments (" + suppressed.length + ")</summary>",
+      "",
+      "| Variable | Location | Reason |",
+      "| --- | --- | --- |",
+      ...suppressed.map(
+        ({ name, s }) =>
+          `| ${markdownCode(name)} | ${markdownCode(`${toRelative(root, s.file)}:${s.line}`)} | ${(s.suppression.reason ?? "no reason given").replace(/\|/g, "\\|")} |`
+      ),
+      "",
+      "</details>",
+    ]);
+  }
+  if (used.length > 0) {
+    sections.push([
+      "",
+      `<details><summary>Environment variables in use (${used.length})</summary>`,
+      "",
+      "| Variable | Used in |",
+      "| --- | --- |",
+      ...used.map(
+        (name) =>
+          `| ${markdownCode(name)} | ${results[name].usage.map((u) => markdownCode(`${toRelative(root, u.file)}:${u.line}`)).join(", ")} |`
+      ),
+      "",
+      "</details>",
+    ]);
+  }
+
+  let length = lines.join("\n").length;
+  for (const section of sections) {
+    // Keep tables well-formed: the header rows always go in, then whole rows while they fit
+    const header = section.findIndex((line) => line.startsWith("| ---")) + 1;
+    const rows = section.slice(header).filter((line) => line.startsWith("|"));
+    const footer = section.slice(header + rows.length);
+    const kept = [...section.slice(0, header)];
+    length += kept.join("\n").length + footer.join("\n").length + 2;
+    if (length > MARKDOWN_MAX_LENGTH) break;
+
+    let omitted = 0;
+    for (const row of rows) {
+      if (omitted === 0 && length + row.length + 1 <= MARKDOWN_MAX_LENGTH - 200) {
+        kept.push(row);
+        length += row.length + 1;
+      } else {
+        omitted++;
+      }
+    }
+    if (omitted > 0) kept.push("", `_…and ${omitted} more, see the full report with \`--format html\`._`);
+    lines.push(...kept, ...footer);
+    if (omitted > 0) break;
+  }
+
+  return lines.join("\n");
+}
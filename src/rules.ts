@@ -0,0 +1,83 @@
+import { Confidence } from "./detectors";
+import { Severity } from "./index";
+
+/**
+ * A user-defined detection rule, from `.envscanconfig.json` or a plugin.
+ * Rules with only a `value` pattern are searched for anywhere in a file, like the
+ * built-in provider detectors. Rules with a `name` pattern only apply to assignments.
+ */
+export interface CustomRule {
+  id: string;
+  description?: string;
+  /** Pattern for the variable name. */
+  name?: string | RegExp;
+  /** Pattern for the literal value. Don't anchor it if the rule has no `name`. */
+  value?: string | RegExp;
+  /** RegExp flags used for string patterns, e.g. "i". */
+  flags?: string;
+  severity: Severity;
+  confidence?: Confidence;
+  /** Variable name suggested for matches that aren't assigned to a variable. */
+  envName?: string;
+}
+
+export interface CompiledRule {
+  id: string;
+  description: string;
+  name?: RegExp;
+  value?: RegExp;
+  /** Global copy of `value`, for value-only rules searched in the whole file. */
+  search?: RegExp;
+  severity: Severity;
+  confidence: Confidence;
+  envName: string;
+}
+
+const SEVERITIES = ["LOW", "MEDIUM", "HIGH", "CRITICAL"];
+
+function toRegExp(rule: CustomRule, pattern: string | RegExp, field: string): RegExp {
+  if (pattern instanceof RegExp) return new RegExp(pattern.source, pattern.flags.replace("g", ""));
+  try {
+    return new RegExp(pattern, (rule.flags ?? "").replace("g", ""));
+  } catch (e) {
+    throw new Error(`Rule "${rule.id}" has an invalid ${field} pattern: ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Validates and compiles custom rules.
+ */
+export function compileRules(rules: CustomRule[]): CompiledRule[] {
+  return rules.map((rule): CompiledRule => {
+    if (!rule || typeof rule.id !== "string" || !rule.id) {
+      throw new Error("Every custom rule needs a string `id`");
+    }
+    if (!rule.name && !rule.value) {
+      throw new Error(`Rule "${rule.id}" needs a \`name\` and/or \`value\` pattern`);
+    }
+    if (!SEVERITIES.includes(rule.severity)) {
+      throw new Error(`Rule "${rule.id}" has an invalid severity. Must be one of: ${SEVERITIES.join(", ")}`);
+    }
+
+    const value = rule.value ? toRegExp(rule, rule.value, "value") : undefined;
+    return {
+      id: rule.id,
+      description: rule.description ?? `Custom rule ${rule.id}`,
+      name: rule.name ? toRegExp(rule, rule.name, "name") : undefined,
+      value,
+      search: value && !rule.name ? new RegExp(value.source, value.flags + "g") : undefined,
+      severity: rule.severity,
+      confidence: rule.confidence ?? "medium",
+      envName: rule.envName ?? rule.id.toUpperCase().replace(/[^A-Z0-9]+/g, "_"),
+    };
+  });
+}
+
+/**
+ * Whether an assignment matches a custom rule. Both patterns must match when both are set.
+ */
+export function matchesRule(rule: CompiledRule, name: string, literal?: string): boolean {
+  if (rule.name && !rule.name.test(name)) return false;
+  if (rule.value && (literal === undefined || !rule.value.test(literal))) return false;
+  return true;
+}
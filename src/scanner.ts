@@ -0,0 +1,391 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Worker } from "worker_threads";
+import { publicEnvPrefixes } from "./frameworks";
+import {
+  DEFAULT_MAX_FILE_SIZE,
+  EnvScanResult,
+  EnvScanResultEntry,
+  ScanOptions,
+  isBinary,
+  isIgnoredDirectory,
+  isScannableFile,
+  mergeResults,
+  SuggestedLocation,
+  SuppressedLocation,
+  scanSource,
+} from "./index";
+
+export interface ScanStats {
+  /** Scannable files found while walking the tree. */
+  files: number;
+  /** Files actually run through the scanner. */
+  scanned: number;
+  /** Files whose results came from the cache. */
+  cached: number;
+  skippedBinary: number;
+  skippedLarge: number;
+  /** Bytes read from disk. */
+  bytes: number;
+  workers: number;
+  durationMs: number;
+}
+
+export interface FileScanResult {
+  file: string;
+  result: EnvScanResult;
+  cached: boolean;
+}
+
+export interface AsyncScanOptions extends ScanOptions {
+  /** Worker threads to scan with; 1 scans on the main thread (default: CPU count - 1). */
+  workers?: number;
+  /** Cache file, or false to disable caching (default: see defaultCacheFile()). */
+  cache?: string | false;
+  /** Filled in while the scan runs. */
+  stats?: ScanStats;
+  /** Extra check on each scannable file (absolute path); false skips it without reading. */
+  filter?: (file: string) => boolean;
+  /** Options for one file, e.g. from the config of its package (default: these options). */
+  optionsFor?: (file: string) => ScanOptions;
+}
+
+/**
+ * A finding as stored in the cache: the secret value itself is never written to disk,
+ * only where it sits in the file, to be read back from the content on a hit.
+ */
+type CachedLocation = Omit<SuggestedLocation, "value"> & { valueOffset?: number; valueLength?: number };
+
+interface CachedResultEntry {
+  usage: EnvScanResultEntry["usage"];
+  suggested: CachedLocation[];
+  suppressed?: (CachedLocation & Pick<SuppressedLocation, "suppression">)[];
+}
+
+type CachedResult = Record<string, CachedResultEntry>;
+
+interface CacheFile {
+  version: number;
+  /**
+   * Per-file results keyed by a hash of the tool version and scan options plus a hash
+   * of the content, with file paths and values removed.
+   */
+  entries: Record<string, CachedResult>;
+}
+
+const CACHE_VERSION = 5;
+const WORKER_FILE = path.join(__dirname, "worker.js");
+
+export function createScanStats(): ScanStats {
+  return { files: 0, scanned: 0, cached: 0, skippedBinary: 0, skippedLarge: 0, bytes: 0, workers: 0, durationMs: 0 };
+}
+
+/**
+ * Where the cache lives by default: node_modules/.cache when the project has one, the
+ * user's cache directory otherwise, so non-Node projects don't get a node_modules folder
+ * and other users on the machine can't read it.
+ */
+export function defaultCacheFile(root: string): string {
+  const nodeModules = path.join(root, "node_modules");
+  if (fs.existsSync(nodeModules)) return path.join(nodeModules, ".cache", "env-guardian", "scan-cache.json");
+  const id = crypto.createHash("sha256").update(path.resolve(root)).digest("hex").slice(0, 16);
+  const userCache = process.env.XDG_CACHE_HOME || path.join(os.homedir(), ".cache");
+  return path.join(userCache, "env-guardian", `scan-cache-${id}.json`);
+}
+
+/**
+ * Plugins and rules only carry plain data and regexes, so they can be posted to workers.
+ */
+function toTransferableOptions(options: ScanOptions): ScanOptions {
+  return {
+    entropy: options.entropy,
+    rules: options.rules,
+    disabledRules: options.disabledRules,
+    maxFileSize: options.maxFileSize,
+    publicEnvPrefixes: options.publicEnvPrefixes,
+    plugins: options.plugins?.map(({ name, matchers, usagePatterns, rules }) => ({ name, matchers, usagePatterns, rules })),
+  };
+}
+
+const optionHashes = new WeakMap<ScanOptions, string>();
+
+function hashOptions(options: ScanOptions): string {
+  const cached = optionHashes.get(options);
+  if (cached) return cached;
+
+  let version = "unknown";
+  try {
+    version = JSON.parse(fs.readFileSync(path.join(__dirname, "..", "package.json"), "utf-8")).version;
+  } catch {
+    // Running from an unusual layout; the options alone still key the cache
+  }
+  const serialized = JSON.stringify(toTransferableOptions(options), (_, v) => (v instanceof RegExp ? String(v) : v));
+  const hash = crypto.createHash("sha256").update(`${version}\0${serialized}`).digest("hex").slice(0, 16);
+  optionHashes.set(options, hash);
+  return hash;
+}
+
+function loadCache(cacheFile: string): CacheFile {
+  try {
+    const cache: CacheFile = JSON.parse(fs.readFileSync(cacheFile, "utf-8"));
+    if (cache.version === CACHE_VERSION) return cache;
+  } catch {
+    // Missing or corrupt cache: start over
+  }
+  return { version: CACHE_VERSION, entries: {} };
+}
+
+/**
+ * Strips file paths and values from a result so it can be stored and reused for any
+ * file with the same content. Undefined when a value can't be found verbatim in the
+ * content (e.g. an unescaped string literal): such files are rescanned every time.
+ */
+function toCacheEntry(result: EnvScanResult, content: string): CachedResult | undefined {
+  const strip = <T extends SuggestedLocation>({ value, ...location }: T) => {
+    if (value === undefined) return { ...location, file: "" };
+    const valueOffset = content.indexOf(value);
+    return valueOffset === -1 ? undefined : { ...location, file: "", valueOffset, valueLength: value.length };
+  };
+
+  const entries: CachedResult = {};
+  for (const [name, entry] of Object.entries(result)) {
+    const suggested = entry.suggested.map(strip);
+    const suppressed = entry.suppressed?.map(strip);
+    if (suggested.includes(undefined) || suppressed?.includes(undefined)) return undefined;
+    entries[name] = {
+      usage: entry.usage.map((u) => ({ ...u, file: "" })),
+      suggested: suggested as CachedLocation[],
+      ...(suppressed && { suppressed: suppressed as CachedResultEntry["suppressed"] }),
+    };
+  }
+  return entries;
+}
+
+/**
+ * Rebuilds a cached result for `file`, reading the values back from its content.
+ */
+function fromCacheEntry(cached: CachedResult, file: string, content: string): EnvScanResult {
+  const restore = <T extends CachedLocation>({ valueOffset, valueLength, ...location }: T) => ({
+    ...location,
+    file,
+    ...(valueOffset !== undefined && { value: content.slice(valueOffset, valueOffset + (valueLength ?? 0)) }),
+  });
+
+  const result: EnvScanResult = {};
+  for (const [name, entry] of Object.entries(cached)) {
+    result[name] = {
+      usage: entry.usage.map((u) => ({ ...u, file })),
+      suggested: entry.suggested.map(restore),
+      ...(entry.suppressed && { suppressed: entry.suppressed.map(restore) }),
+    };
+  }
+  return result;
+}
+
+/**
+ * Walks a directory without recursion, yielding every scannable file.
+ */
+async function* walkFiles(root: string, options: AsyncScanOptions): AsyncGenerator<string> {
+  const pending = [root];
+  for (let dir; (dir = pending.pop()) !== undefined; ) {
+    for await (const entry of await fs.promises.opendir(dir)) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!isIgnoredDirectory(entry.name)) pending.push(fullPath);
+      } else if (
+        entry.isFile() &&
+        isScannableFile(entry.name, options.optionsFor?.(fullPath) ?? options) &&
+        (options.filter?.(fullPath) ?? true)
+      ) {
+        yield fullPath;
+      }
+    }
+  }
+}
+
+interface WorkerPool {
+  /** Scans with the pool's options unless `options` are given. */
+  run(file: string, content: string, options?: ScanOptions): Promise<EnvScanResult>;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts `size` workers that each run scanSource() on the files posted to them.
+ */
+function createWorkerPool(size: number, options: ScanOptions): WorkerPool {
+  type Task = {
+    file: string;
+    content: string;
+    options?: ScanOptions;
+    resolve: (r: EnvScanResult) => void;
+    reject: (e: Error) => void;
+  };
+  const queue: Task[] = [];
+  const running = new Map<Worker, Task>();
+  const workers = Array.from(
+    { length: size },
+    () => new Worker(WORKER_FILE, { workerData: { options: toTransferableOptions(options) } })
+  );
+  const idle = [...workers];
+
+  const dispatch = () => {
+    while (idle.length > 0 && queue.length > 0) {
+      const worker = idle.pop() as Worker;
+      const task = queue.shift() as Task;
+      running.set(worker, task);
+      worker.postMessage({
+        file: task.file,
+        content: task.content,
+        options: task.options && toTransferableOptions(task.options),
+      });
+    }
+  };
+
+  for (const worker of workers) {
+    worker.on("message", (result: EnvScanResult) => {
+      running.get(worker)?.resolve(result);
+      running.delete(worker);
+      idle.push(worker);
+      dispatch();
+    });
+    worker.on("error", (error) => {
+      running.get(worker)?.reject(error);
+      running.delete(worker);
+      for (const task of queue.splice(0)) task.reject(error);
+    });
+  }
+
+  return {
+    run: (file, content, options) =>
+      new Promise((resolve, reject) => {
+        queue.push({ file, content, options, resolve, reject });
+        dispatch();
+      }),
+    close: async () => {
+      await Promise.all(workers.map((w) => w.terminate()));
+    },
+  };
+}
+
+/**
+ * Scans a directory and yields results file by file as they complete. Files are read
+ * and scanned concurrently on a worker pool; unchanged files are answered from an
+ * on-disk cache keyed by content hash.
+ */
+export async function* streamScan(root: string, options: AsyncScanOptions = {}): AsyncGenerator<FileScanResult> {
+  const started = Date.now();
+  const stats = options.stats ?? createScanStats();
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+
+  // Workers only pay off when there's a spare core and a compiled worker script
+  const wanted = options.workers ?? Math.max(1, os.cpus().length - 1);
+  const workerCount = wanted > 1 && fs.existsSync(WORKER_FILE) ? wanted : 0;
+  stats.workers = workerCount;
+
+  const cacheFile = options.cache === false ? undefined : options.cache ?? defaultCacheFile(root);
+  const cache = cacheFile ? loadCache(cacheFile) : undefined;
+  const seen: Record<string, CachedResult> = {};
+
+  // Started on the first cache miss, so fully cached runs never spawn workers
+  let pool: WorkerPool | undefined;
+
+  const scanFile = async (file: string): Promise<FileScanResult | undefined> => {
+    // The file may have been removed since the directory was read
+    const stat = await fs.promises.stat(file).catch(() => undefined);
+    if (!stat) return undefined;
+    if (stat.size > maxFileSize) {
+      stats.skippedLarge++;
+      return undefined;
+    }
+
+    const buffer = await fs.promises.readFile(file);
+    stats.bytes += buffer.length;
+    if (isBinary(buffer)) {
+      stats.skippedBinary++;
+      return undefined;
+    }
+
+    const fileOptions = options.optionsFor?.(file) ?? options;
+    // Public env findings also depend on the frameworks in the file's package.json
+    const prefixes = fileOptions.publicEnvPrefixes ?? publicEnvPrefixes(path.dirname(file));
+    const hash =
+      hashOptions(fileOptions) + crypto.createHash("sha256").update(`${prefixes.join(",")}\0`).update(buffer).digest("hex");
+    const content = buffer.toString("utf-8");
+    const hit = cache?.entries[hash];
+    if (hit) {
+      seen[hash] = hit;
+      stats.cached++;
+      return { file, result: fromCacheEntry(hit, file, content), cached: true };
+    }
+
+    if (workerCount > 0) pool ??= createWorkerPool(workerCount, options);
+    const result = pool
+      ? await pool.run(file, content, fileOptions === options ? undefined : fileOptions)
+      : scanSource(file, content, {}, fileOptions);
+    const entry = toCacheEntry(result, content);
+    if (entry) seen[hash] = entry;
+    stats.scanned++;
+    return { file, result, cached: false };
+  };
+
+  // Keep a bounded number of files in flight and hand results out in completion order
+  const limit = Math.max(workerCount, 1) * 4;
+  const inFlight = new Map<number, Promise<[number, FileScanResult | undefined]>>();
+  let nextId = 0;
+
+  const settleOne = async () => {
+    const [id, result] = await Promise.race(inFlight.values());
+    inFlight.delete(id);
+    return result;
+  };
+
+  try {
+    for await (const file of walkFiles(root, options)) {
+      stats.files++;
+      const id = nextId++;
+      const pending = scanFile(file).then((r): [number, FileScanResult | undefined] => [id, r]);
+      pending.catch(() => {}); // surfaced by settleOne(); avoids an unhandled rejection meanwhile
+      inFlight.set(id, pending);
+      if (inFlight.size >= limit) {
+        const result = await settleOne();
+        if (result) yield result;
+      }
+    }
+    while (inFlight.size > 0) {
+      const result = await settleOne();
+      if (result) yield result;
+    }
+
+    // Only entries for files that still exist are kept, so the cache can't grow forever.
+    // Snippets and locations still describe the code, so the cache is private to its owner.
+    if (cacheFile && cache) {
+      await fs.promises.mkdir(path.dirname(cacheFile), { recursive: true, mode: 0o700 });
+      await fs.promises.writeFile(cacheFile, JSON.stringify({ ...cache, entries: seen }), { mode: 0o600 });
+      await fs.promises.chmod(cacheFile, 0o600);
+    }
+  } finally {
+    await pool?.close();
+    stats.durationMs = Date.now() - started;
+  }
+}
+
+/**
+ * Async, parallel and cached counterpart of scanForEnv().
+ */
+export async function scanForEnvAsync(
+  root: string,
+  options: AsyncScanOptions = {}
+): Promise<{ results: EnvScanResult; stats: ScanStats }> {
+  const stats = options.stats ?? createScanStats();
+  const files: FileScanResult[] = [];
+  for await (const scanned of streamScan(root, { ...options, stats })) files.push(scanned);
+
+  // Files finish in any order; merge by path so reports are stable between runs
+  files.sort((a, b) => (a.file < b.file ? -1 : a.file > b.file ? 1 : 0));
+  const results: EnvScanResult = {};
+  for (const { result } of files) mergeResults(results, result);
+
+  return { results, stats };
+}
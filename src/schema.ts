@@ -0,0 +1,248 @@
+import fs from "fs";
+import path from "path";
+import { parseConfigJson } from "./config";
+
+export const ENV_SCHEMA_FILE = "env.schema.json";
+
+export type EnvVarType = "string" | "number" | "port" | "url" | "email" | "enum" | "boolean" | "regex";
+
+export type EnvValue = string | number | boolean;
+
+export interface EnvVarSchema {
+  /** Default: string. */
+  type?: EnvVarType;
+  /** true for every environment, or the environments it is required in, e.g. ["production"]. */
+  required?: boolean | string[];
+  /** Used when the variable is missing or empty. */
+  default?: EnvValue;
+  /** Allowed values of an enum. */
+  values?: string[];
+  /** Regular expression a regex value must match. */
+  pattern?: string;
+  /** Bounds of a number. */
+  min?: number;
+  max?: number;
+  description?: string;
+}
+
+export interface EnvSchema {
+  variables: Record<string, EnvVarSchema>;
+}
+
+export interface EnvViolation {
+  key: string;
+  /** Why the value was rejected. Never includes the value itself, which may be a secret. */
+  reason: string;
+}
+
+export interface EnvValidationResult {
+  valid: boolean;
+  violations: EnvViolation[];
+  /** Every variable in the schema with defaults applied, converted to its type. */
+  values: Record<string, EnvValue>;
+}
+
+export interface EnvValidationOptions {
+  /** Environment the values are for, e.g. "production". Decides which `required` lists apply. */
+  environment?: string;
+}
+
+const TYPES: EnvVarType[] = ["string", "number", "port", "url", "email", "enum", "boolean", "regex"];
+const VARIABLE_KEYS = ["type", "required", "default", "values", "pattern", "min", "max", "description"];
+const BOOLEANS: Record<string, boolean> = { true: true, false: false, "1": true, "0": false, yes: true, no: false };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Converts a value to its schema type, or returns why it doesn't fit.
+ */
+function convert(value: string, spec: EnvVarSchema): { value: EnvValue } | { reason: string } {
+  switch (spec.type ?? "string") {
+    case "number": {
+      const n = Number(value);
+      if (!value.trim() || !Number.isFinite(n)) return { reason: "must be a number" };
+      if (spec.min !== undefined && n < spec.min) return { reason: `must be at least ${spec.min}` };
+      if (spec.max !== undefined && n > spec.max) return { reason: `must be at most ${spec.max}` };
+      return { value: n };
+    }
+    case "port": {
+      const n = Number(value);
+      if (!/^\d+$/.test(value.trim()) || n < 1 || n > 65535) return { reason: "must be a port number (1-65535)" };
+      return { value: n };
+    }
+    case "url":
+      try {
+        // new URL() alone would accept "localhost:5432" with "localhost:" as the scheme
+        if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(value)) throw new Error();
+        new URL(value);
+        return { value };
+      } catch {
+        return { reason: "must be a URL with a scheme, e.g. https://example.com" };
+      }
+    case "email":
+      return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? { value } : { reason: "must be an email address" };
+    case "boolean": {
+      const b = BOOLEANS[value.trim().toLowerCase()];
+      return b !== undefined ? { value: b } : { reason: "must be a boolean (true/false, 1/0, yes/no)" };
+    }
+    case "enum":
+      return spec.values?.includes(value) ? { value } : { reason: `must be one of: ${spec.values?.join(", ")}` };
+    case "regex":
+      return new RegExp(spec.pattern ?? "").test(value) ? { value } : { reason: `must match ${spec.pattern}` };
+    default:
+      return { value };
+  }
+}
+
+function isRequired(spec: EnvVarSchema, environment: string | undefined): boolean {
+  if (Array.isArray(spec.required)) return environment !== undefined && spec.required.includes(environment);
+  return spec.required === true;
+}
+
+/**
+ * Checks a schema file's structure. Returns one message per problem, empty when valid.
+ */
+export function validateEnvSchema(raw: unknown): string[] {
+  if (!isObject(raw)) return ["must be a JSON object"];
+  if (!isObject(raw.variables)) return [`needs a "variables" object mapping names to their definitions`];
+
+  const issues: string[] = [];
+  for (const key of Object.keys(raw)) {
+    if (key !== "variables" && key !== "$schema") issues.push(`unknown key "${key}"`);
+  }
+
+  for (const [name, spec] of Object.entries(raw.variables)) {
+    const before = issues.length;
+    const at = (message: string) => issues.push(`${name}: ${message}`);
+    if (!isObject(spec)) {
+      at("must be an object");
+      continue;
+    }
+    for (const key of Object.keys(spec)) {
+      if (!VARIABLE_KEYS.includes(key)) at(`unknown key "${key}" (expected one of: ${VARIABLE_KEYS.join(", ")})`);
+    }
+
+    const type = spec.type ?? "string";
+    if (typeof type !== "string" || !TYPES.includes(type as EnvVarType)) {
+      at(`"type" must be one of: ${TYPES.join(", ")}`);
+      continue;
+    }
+    if (
+      spec.required !== undefined &&
+      typeof spec.required !== "boolean" &&
+      !(Array.isArray(spec.required) && spec.required.every((e) => typeof e === "string"))
+    ) {
+      at(`"required" must be true, false or a list of environments`);
+    }
+    if (type === "enum" && !(Array.isArray(spec.values) && spec.values.length > 0 && spec.values.every((v) => typeof v === "string"))) {
+      at(`an enum needs "values", a non-empty array of strings`);
+    }
+    if (type === "regex") {
+      try {
+        if (typeof spec.pattern !== "string") throw new Error();
+        new RegExp(spec.pattern);
+      } catch {
+        at(`a regex needs a valid "pattern"`);
+      }
+    }
+    for (const key of ["min", "max"]) {
+      if (spec[key] !== undefined && (type !== "number" || typeof spec[key] !== "number")) {
+        at(`"${key}" must be a number and only applies to numbers`);
+      }
+    }
+    if (spec.default !== undefined) {
+      if (!["string", "number", "boolean"].includes(typeof spec.default)) {
+        at(`"default" must be a string, number or boolean`);
+      } else if (issues.length === before) {
+        const converted = convert(String(spec.default), spec as EnvVarSchema);
+        if ("reason" in converted) at(`"default" ${converted.reason}`);
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Reads and checks a schema file. Throws with every problem found.
+ */
+export function loadEnvSchema(file: string = ENV_SCHEMA_FILE): EnvSchema {
+  if (!fs.existsSync(file)) throw new Error(`${file} not found`);
+
+  let raw: unknown;
+  try {
+    raw = parseConfigJson(fs.readFileSync(file, "utf-8"));
+  } catch (e) {
+    throw new Error(`${file}: ${(e as Error).message}`);
+  }
+  const issues = validateEnvSchema(raw);
+  if (issues.length > 0) throw new Error(`${file} has errors:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+  return raw as EnvSchema;
+}
+
+/**
+ * The environment an env file is for, from its name: `.env.production` and
+ * `.env.production.local` are "production". Undefined for `.env` and `.env.local`.
+ */
+export function environmentOf(file: string): string | undefined {
+  const m = path.basename(file).match(/^\.env\.([^.]+)(?:\.local)?(?:\.enc)?$/);
+  return m && !["local", "example", "enc"].includes(m[1]) ? m[1] : undefined;
+}
+
+/**
+ * Validates variables against a schema: missing required ones, and values that don't
+ * match their type. Empty values count as missing.
+ */
+export function validateEnv(
+  variables: Record<string, string | undefined>,
+  schema: EnvSchema,
+  options: EnvValidationOptions = {}
+): EnvValidationResult {
+  const violations: EnvViolation[] = [];
+  const values: Record<string, EnvValue> = {};
+
+  for (const [key, spec] of Object.entries(schema.variables)) {
+    const raw = variables[key];
+    if (raw === undefined || raw === "") {
+      if (spec.default !== undefined) {
+        values[key] = spec.default;
+      } else if (isRequired(spec, options.environment)) {
+        violations.push({
+          key,
+          reason: Array.isArray(spec.required) ? `is required in ${options.environment}` : "is required",
+        });
+      }
+      continue;
+    }
+
+    const converted = convert(raw, spec);
+    if ("reason" in converted) violations.push({ key, reason: converted.reason });
+    else values[key] = converted.value;
+  }
+
+  return { valid: violations.length === 0, violations, values };
+}
+
+/**
+ * Validates the process environment at startup and returns the typed values, or throws
+ * listing every problem:
+ *
+ *     const env = assertEnv({ schema: "env.schema.json" });
+ */
+export function assertEnv(
+  options: EnvValidationOptions & {
+    /** Schema object or file (default: env.schema.json). */
+    schema?: string | EnvSchema;
+    /** Default: process.env. */
+    env?: Record<string, string | undefined>;
+  } = {}
+): Record<string, EnvValue> {
+  const schema = typeof options.schema === "object" ? options.schema : loadEnvSchema(options.schema);
+  const env = options.env ?? process.env;
+  const result = validateEnv(env, schema, { environment: options.environment ?? env.NODE_ENV });
+  if (!result.valid) {
+    throw new Error(`Invalid environment:\n${result.violations.map((v) => `  - ${v.key}: ${v.reason}`).join("\n")}`);
+  }
+  return result.values;
+}
@@ -0,0 +1,161 @@
+export type SuppressionKind = "ignore" | "ignore-next-line" | "ignore-file";
+
+/**
+ * An `env-guardian-ignore` comment found in a source file.
+ */
+export interface Suppression {
+  kind: SuppressionKind;
+  /** Line of the comment itself (1-based). */
+  line: number;
+  /** Rule IDs it is limited to; empty means every rule. */
+  rules: string[];
+  reason?: string;
+}
+
+export interface FileSuppressions {
+  file: Suppression[];
+  /** Line-level suppressions keyed by the line they apply to. */
+  lines: Map<number, Suppression[]>;
+}
+
+const SLASH = ["//", "/*"];
+const HASH = ["#"];
+
+/**
+ * Comment openers per matcher key. Files handled only by plugins accept both styles.
+ */
+const COMMENT_MARKERS: Record<string, string[]> = {
+  js: SLASH,
+  ts: SLASH,
+  vue: [...SLASH, "<!--"],
+  java: SLASH,
+  kt: SLASH,
+  go: SLASH,
+  cs: SLASH,
+  php: [...SLASH, ...HASH],
+  py: HASH,
+  rb: HASH,
+  sh: HASH,
+  bash: HASH,
+  yml: HASH,
+  yaml: HASH,
+  dockerfile: HASH,
+  npmrc: [...HASH, ";"],
+  yarnrc: HASH,
+  dotenv: HASH,
+  github: HASH,
+  gitlab: HASH,
+  circleci: HASH,
+  azure: HASH,
+  // JSON has no comments
+  json: [],
+};
+
+const directiveCache = new Map<string, RegExp>();
+
+function directivePattern(markers: string[]): RegExp {
+  const key = markers.join(" ");
+  let regex = directiveCache.get(key);
+  if (!regex) {
+    const openers = markers.map((m) => m.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&")).join("|");
+    regex = new RegExp(`(?:${openers})[\\s*]*env-guardian-(ignore-next-line|ignore-file|ignore)(?![\\w-])(.*)$`, "gm");
+    directiveCache.set(key, regex);
+  }
+  return regex;
+}
+
+/**
+ * Whether `index` sits inside a quoted string that starts on the same line. Used for
+ * languages parsed line by line, where a marker in a string isn't a comment.
+ */
+function insideString(source: string, index: number): boolean {
+  let quote: string | undefined;
+  for (let i = source.lastIndexOf("\n", index - 1) + 1; i < index; i++) {
+    const ch = source[i];
+    if (quote) {
+      if (ch === "\\") i++;
+      else if (ch === quote) quote = undefined;
+    } else if (ch === '"' || ch === "'" || ch === "`") {
+      quote = ch;
+    }
+  }
+  return quote !== undefined;
+}
+
+/**
+ * Splits what follows a directive, e.g. `stripe-secret-key, suspicious-name -- test fixture`,
+ * into rule IDs and a reason.
+ */
+function parseArguments(rest: string): { rules: string[]; reason?: string } {
+  const text = rest.replace(/\s*(?:\*\/|-->)\s*$/, "");
+  const [rulePart, ...reasonParts] = text.split(/(?:^|\s)--(?:\s|$)/);
+  const reason = reasonParts.join(" -- ").trim();
+  return {
+    rules: rulePart.split(/[\s,]+/).filter(Boolean),
+    reason: reason || undefined,
+  };
+}
+
+/**
+ * Finds the suppression comments in a file, using the comment syntax of its language:
+ *
+ * - `// env-guardian-ignore-next-line [rule-id] [-- reason]` covers the following line
+ * - `... // env-guardian-ignore [rule-id] [-- reason]` covers its own line
+ * - `# env-guardian-ignore-file [rule-id] [-- reason]` covers the whole file
+ *
+ * Directives only count inside comments, not in strings. `comments` are the comment
+ * ranges of a parsed file (JS/TS); other languages are checked line by line.
+ */
+export function parseSuppressions(
+  source: string,
+  matcherKey: string,
+  comments?: { start: number; end: number }[]
+): FileSuppressions {
+  const suppressions: FileSuppressions = { file: [], lines: new Map() };
+  const markers = COMMENT_MARKERS[matcherKey] ?? [...SLASH, ...HASH];
+  if (markers.length === 0 || !source.includes("env-guardian-ignore")) return suppressions;
+
+  const lineStarts = [0];
+  for (let i = source.indexOf("\n"); i !== -1; i = source.indexOf("\n", i + 1)) lineStarts.push(i + 1);
+  const lineAt = (offset: number) => {
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= offset) line++;
+    return line + 1;
+  };
+
+  const pattern = directivePattern(markers);
+  pattern.lastIndex = 0;
+  for (let m; (m = pattern.exec(source)); ) {
+    const index = m.index;
+    const inComment = comments ? comments.some((c) => index >= c.start && index < c.end) : !insideString(source, index);
+    if (!inComment) {
+      // A real comment may follow the string on the same line
+      pattern.lastIndex = index + 1;
+      continue;
+    }
+
+    const kind = m[1] as SuppressionKind;
+    const line = lineAt(index);
+    const suppression: Suppression = { kind, line, ...parseArguments(m[2]) };
+
+    if (kind === "ignore-file") {
+      suppressions.file.push(suppression);
+    } else {
+      const target = kind === "ignore-next-line" ? line + 1 : line;
+      suppressions.lines.set(target, [...(suppressions.lines.get(target) ?? []), suppression]);
+    }
+  }
+  return suppressions;
+}
+
+/**
+ * The suppression covering a finding on `line` reported by `rule`, if any.
+ */
+export function findSuppression(
+  suppressions: FileSuppressions,
+  line: number,
+  rule: string | undefined
+): Suppression | undefined {
+  const applies = (s: Suppression) => s.rules.length === 0 || (rule !== undefined && s.rules.includes(rule));
+  return suppressions.lines.get(line)?.find(applies) ?? suppressions.file.find(applies);
+}
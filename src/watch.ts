@@ -0,0 +1,231 @@
+import fs from "fs";
+import path from "path";
+import { Confidence } from "./detectors";
+import { clearFrameworkCache } from "./frameworks";
+import {
+  DEFAULT_MAX_FILE_SIZE,
+  EnvScanResult,
+  Severity,
+  isBinary,
+  isIgnoredDirectory,
+  isScannableFile,
+  mergeResults,
+  scanSource,
+} from "./index";
+import { AsyncScanOptions, streamScan } from "./scanner";
+
+export interface WatchFinding {
+  variable: string;
+  file: string;
+  line: number;
+  column: number;
+  snippet: string;
+  severity?: Severity;
+  rule?: string;
+  confidence?: Confidence;
+}
+
+export interface FindingsDiff {
+  added: WatchFinding[];
+  resolved: WatchFinding[];
+}
+
+export interface WatchOptions extends AsyncScanOptions {
+  /** Quiet period after the last file event before re-scanning (default: 150 ms). */
+  debounceMs?: number;
+}
+
+export interface ScanWatcher {
+  /** Results of the initial scan merged with every re-scan since. */
+  results(): EnvScanResult;
+  close(): void;
+}
+
+/**
+ * Flattens scan results into one entry per suggested finding.
+ */
+export function flattenFindings(result: EnvScanResult): WatchFinding[] {
+  return Object.entries(result).flatMap(([variable, entry]) =>
+    entry.suggested.map((s) => ({
+      variable,
+      file: s.file,
+      line: s.line,
+      column: s.column,
+      snippet: s.snippet,
+      severity: s.severity,
+      rule: s.rule,
+      confidence: s.confidence,
+    }))
+  );
+}
+
+/**
+ * Identity of a finding that survives edits elsewhere in the file, so moving code
+ * up or down doesn't show up as resolved + added.
+ */
+function findingKey(f: WatchFinding): string {
+  return [f.variable, f.file, f.rule ?? "", f.severity ?? "", f.snippet].join("\0");
+}
+
+/**
+ * Compares two sets of results. Findings are matched by variable, file, rule and
+ * snippet, counting duplicates, rather than by position.
+ */
+export function diffFindings(before: EnvScanResult, after: EnvScanResult): FindingsDiff {
+  const remaining = new Map<string, WatchFinding[]>();
+  for (const f of flattenFindings(before)) {
+    const key = findingKey(f);
+    remaining.set(key, [...(remaining.get(key) ?? []), f]);
+  }
+
+  const added: WatchFinding[] = [];
+  for (const f of flattenFindings(after)) {
+    const matches = remaining.get(findingKey(f));
+    if (matches && matches.length > 0) matches.shift();
+    else added.push(f);
+  }
+
+  return { added, resolved: [...remaining.values()].flat() };
+}
+
+/**
+ * Re-scans a single file. Missing, binary and oversized files have no findings.
+ */
+async function rescanFile(file: string, options: WatchOptions): Promise<EnvScanResult> {
+  const stat = await fs.promises.stat(file).catch(() => undefined);
+  if (!stat?.isFile() || stat.size > (options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE)) return {};
+
+  const content = await fs.promises.readFile(file).catch(() => undefined);
+  if (!content || isBinary(content)) return {};
+  return scanSource(file, content.toString("utf-8"), {}, options.optionsFor?.(file) ?? options);
+}
+
+/**
+ * Scans a directory once, then watches it and re-scans only the files that change.
+ * `onUpdate` receives the findings added and resolved by each batch of changes.
+ */
+export async function watchScan(
+  root: string,
+  options: WatchOptions,
+  onUpdate: (diff: FindingsDiff, changed: string[]) => void,
+  onError: (error: unknown) => void = () => {}
+): Promise<ScanWatcher> {
+  const byFile = new Map<string, EnvScanResult>();
+  for await (const { file, result } of streamScan(root, options)) byFile.set(file, result);
+
+  const merge = (results: Iterable<EnvScanResult>) => {
+    const merged: EnvScanResult = {};
+    for (const result of results) mergeResults(merged, result);
+    return merged;
+  };
+
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let running = Promise.resolve();
+
+  const flush = () => {
+    const changed = [...pending].sort();
+    pending.clear();
+
+    // Batches run one after another so a slow re-scan never interleaves with the next
+    running = running.then(async () => {
+      const before: EnvScanResult[] = [];
+      const after: EnvScanResult[] = [];
+      for (const file of changed) {
+        before.push(byFile.get(file) ?? {});
+        const result = await rescanFile(file, options);
+        after.push(result);
+        if (Object.keys(result).length > 0 || fs.existsSync(file)) byFile.set(file, result);
+        else byFile.delete(file);
+      }
+
+      const diff = diffFindings(merge(before), merge(after));
+      if (diff.added.length > 0 || diff.resolved.length > 0) onUpdate(diff, changed);
+    }).catch(onError);
+  };
+
+  const onChange = (file: string) => {
+    const relative = path.relative(root, file);
+    const manifest = path.basename(relative) === "package.json";
+    const scannable = isScannableFile(relative, options.optionsFor?.(file) ?? options);
+    if (!manifest && !scannable) return;
+
+    // Frameworks decide which env prefixes are public, for every file below the package.json
+    if (manifest) {
+      clearFrameworkCache();
+      const dir = path.dirname(path.resolve(file)) + path.sep;
+      for (const known of byFile.keys()) if (path.resolve(known).startsWith(dir)) pending.add(known);
+    }
+    if (scannable) pending.add(file);
+
+    clearTimeout(timer);
+    timer = setTimeout(flush, options.debounceMs ?? 150);
+  };
+
+  // One watcher per directory the scan walks: a recursive watch would also follow
+  // node_modules, .git and the other skipped directories
+  const watchers = new Map<string, fs.FSWatcher>();
+
+  const unwatch = (dir: string) => {
+    for (const [watched, watcher] of watchers) {
+      if (watched === dir || watched.startsWith(dir + path.sep)) {
+        watcher.close();
+        watchers.delete(watched);
+      }
+    }
+  };
+
+  const watchDirectory = (dir: string, existing: boolean) => {
+    if (watchers.has(dir)) return;
+    let entries: fs.Dirent[];
+    try {
+      watchers.set(dir, fs.watch(dir, (_event, filename) => filename && onEntry(dir, filename.toString())));
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch (e) {
+      // Removed before it could be watched
+      unwatch(dir);
+      if (fs.existsSync(dir)) onError(e);
+      return;
+    }
+    (watchers.get(dir) as fs.FSWatcher).on("error", (e) => {
+      unwatch(dir);
+      if (fs.existsSync(dir)) onError(e);
+    });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!isIgnoredDirectory(entry.name)) watchDirectory(fullPath, existing);
+      } else if (!existing) {
+        // Files written along with a new directory, before it was watched
+        onChange(fullPath);
+      }
+    }
+  };
+
+  const onEntry = (dir: string, name: string) => {
+    const file = path.join(dir, name);
+    if (watchers.has(file) && !fs.existsSync(file)) {
+      // A removed directory resolves the findings of every file in it
+      unwatch(file);
+      for (const known of byFile.keys()) if (known.startsWith(file + path.sep)) onChange(known);
+      return;
+    }
+    if (!isIgnoredDirectory(name) && fs.statSync(file, { throwIfNoEntry: false })?.isDirectory()) {
+      watchDirectory(file, false);
+      return;
+    }
+    onChange(file);
+  };
+
+  watchDirectory(root, true);
+
+  return {
+    results: () => merge([...byFile.keys()].sort().map((file) => byFile.get(file) as EnvScanResult)),
+    close: () => {
+      clearTimeout(timer);
+      for (const watcher of watchers.values()) watcher.close();
+      watchers.clear();
+    },
+  };
+}
@@ -0,0 +1,11 @@
+import { parentPort, workerData } from "worker_threads";
+import { ScanOptions, scanSource } from "./index";
+
+/**
+ * Worker thread for scanForEnvAsync(): scans each posted file and sends back its results.
+ */
+const options: ScanOptions = workerData.options;
+
+parentPort?.on("message", (task: { file: string; content: string; options?: ScanOptions }) => {
+  parentPort?.postMessage(scanSource(task.file, task.content, {}, task.options ?? options));
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { applyBaseline, createBaseline, loadBaseline, pruneBaseline, saveBaseline } from "../src/baseline";
+import { EnvScanResult } from "../src/index";
+
+const ROOT = path.join(os.tmpdir(), "project");
+const SECRET = "sk_live_abcdefghijklmnop";
+
+function results(findings: { variable: string; file: string; value: string; line?: number }[]): EnvScanResult {
+  const result: EnvScanResult = {};
+  for (const { variable, file, value, line = 1 } of findings) {
+    result[variable] ??= { usage: [], suggested: [] };
+    result[variable].suggested.push({
+      file: path.join(ROOT, file),
+      line,
+      column: 1,
+      snippet: "",
+      value,
+      rule: "stripe-secret-key",
+      severity: "CRITICAL",
+    });
+  }
+  return result;
+}
+
+describe("createBaseline", () => {
+  it("stores relative paths and salted hashes, never the value", () => {
+    const baseline = createBaseline(results([{ variable: "stripeKey", file: "src/pay.ts", value: SECRET }]), ROOT);
+
+    assert.equal(baseline.version, 2);
+    assert.deepEqual(
+      baseline.findings.map(({ variable, file, rule }) => ({ variable, file, rule })),
+      [{ variable: "stripeKey", file: "src/pay.ts", rule: "stripe-secret-key" }]
+    );
+    assert.match(baseline.findings[0].valueHash ?? "", /^hmac-sha256:/);
+    assert.ok(!JSON.stringify(baseline).includes(SECRET));
+  });
+
+  it("uses a new salt every time", () => {
+    const found = results([{ variable: "stripeKey", file: "src/pay.ts", value: SECRET }]);
+    assert.notEqual(createBaseline(found, ROOT).findings[0].valueHash, createBaseline(found, ROOT).findings[0].valueHash);
+  });
+});
+
+describe("applyBaseline", () => {
+  const baseline = createBaseline(
+    results([
+      { variable: "stripeKey", file: "src/pay.ts", value: SECRET },
+      { variable: "oldKey", file: "src/old.ts", value: SECRET },
+    ]),
+    ROOT
+  );
+
+  it("hides known findings, even on another line, and reports stale entries", () => {
+    const { results: remaining, comparison } = applyBaseline(
+      results([
+        { variable: "stripeKey", file: "src/pay.ts", value: SECRET, line: 40 },
+        { variable: "stripeKey", file: "src/new.ts", value: SECRET },
+      ]),
+      baseline,
+      ROOT
+    );
+
+    assert.deepEqual(
+      remaining.stripeKey.suggested.map((s) => path.relative(ROOT, s.file)),
+      [path.join("src", "new.ts")]
+    );
+    assert.equal(comparison.suppressed, 1);
+    assert.deepEqual(
+      comparison.stale.map((f) => f.variable),
+      ["oldKey"]
+    );
+  });
+
+  it("treats a changed value as a new finding", () => {
+    const { comparison } = applyBaseline(
+      results([{ variable: "stripeKey", file: "src/pay.ts", value: SECRET + "x" }]),
+      baseline,
+      ROOT
+    );
+    assert.equal(comparison.suppressed, 0);
+  });
+
+  it("matches wherever the scan is run from", () => {
+    const elsewhere = path.join(os.tmpdir(), "copy");
+    const moved = results([{ variable: "stripeKey", file: "src/pay.ts", value: SECRET }]);
+    for (const s of moved.stripeKey.suggested) s.file = path.join(elsewhere, "src/pay.ts");
+    assert.equal(applyBaseline(moved, baseline, elsewhere).comparison.suppressed, 1);
+  });
+
+  it("prunes stale entries", () => {
+    const { comparison } = applyBaseline(results([{ variable: "stripeKey", file: "src/pay.ts", value: SECRET }]), baseline, ROOT);
+    assert.deepEqual(
+      pruneBaseline(baseline, comparison.stale).findings.map((f) => f.variable),
+      ["stripeKey"]
+    );
+  });
+});
+
+describe("loadBaseline / saveBaseline", () => {
+  it("round-trips a baseline and rejects other files", () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "env-guardian-test-")), "baseline.json");
+    const baseline = createBaseline(results([{ variable: "stripeKey", file: "src/pay.ts", value: SECRET }]), ROOT);
+    saveBaseline(file, baseline);
+    assert.deepEqual(loadBaseline(file), baseline);
+
+    fs.writeFileSync(file, JSON.stringify({ version: 2, findings: [] }));
+    assert.throws(() => loadBaseline(file), /not a valid env-guardian baseline/);
+    assert.throws(() => loadBaseline(file + ".missing"), /not found/);
+  });
+});
@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import {
+  CONFIG_FILE,
+  IgnoreEntry,
+  applyIgnoreRules,
+  createConfigResolver,
+  findIgnoreEntry,
+  validateConfig,
+  validateConfigFile,
+} from "../src/config";
+import { EnvScanResult } from "../src/index";
+
+/**
+ * A repository with the given files; objects are written as JSON.
+ */
+function project(files: Record<string, string | object>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "env-guardian-test-"));
+  fs.mkdirSync(path.join(dir, ".git"));
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true });
+    fs.writeFileSync(path.join(dir, name), typeof content === "string" ? content : JSON.stringify(content));
+  }
+  return dir;
+}
+
+const config = (extra: object = {}) => ({ ignore: { variables: [], files: [] }, ...extra });
+const plugin = (name: string) => `module.exports = { name: "${name}" };\n`;
+
+describe("createConfigResolver", () => {
+  it("merges the configs from a file's directory up to the repository root", () => {
+    const dir = project({
+      [CONFIG_FILE]: config({ priority: "LOW", ignore: { variables: ["A"], files: [] } }),
+      [`packages/api/${CONFIG_FILE}`]: config({ priority: "HIGH", ignore: { variables: ["B"], files: [] } }),
+    });
+    const resolved = createConfigResolver().forFile(path.join(dir, "packages/api/src/index.ts"));
+
+    assert.equal(resolved.config.priority, "HIGH");
+    assert.deepEqual(resolved.config.ignore.variables, ["A", "B"]);
+    assert.deepEqual(resolved.files, [path.join(dir, CONFIG_FILE), path.join(dir, "packages/api", CONFIG_FILE)]);
+  });
+
+  it("stops at a config marked as root", () => {
+    const dir = project({
+      [CONFIG_FILE]: config({ ignore: { variables: ["A"], files: [] } }),
+      [`packages/api/${CONFIG_FILE}`]: config({ root: true }),
+    });
+    assert.deepEqual(createConfigResolver().forFile(path.join(dir, "packages/api/a.ts")).config.ignore.variables, []);
+  });
+});
+
+describe("plugins", () => {
+  const files = {
+    [CONFIG_FILE]: config({ plugins: ["./root-plugin.js"] }),
+    "root-plugin.js": plugin("root"),
+    [`vendor/${CONFIG_FILE}`]: config({ plugins: ["./sub-plugin.js", "./missing.js"] }),
+    "vendor/sub-plugin.js": plugin("sub"),
+  };
+  const pluginNames = (resolver: ReturnType<typeof createConfigResolver>, file: string) =>
+    resolver.forFile(file).scanOptions.plugins?.map((p) => p.name);
+
+  it("only loads those of the plugin root and its parents", () => {
+    const dir = project(files);
+    const resolver = createConfigResolver({ pluginRoot: dir });
+
+    assert.deepEqual(pluginNames(resolver, path.join(dir, "a.ts")), ["root"]);
+    assert.deepEqual(pluginNames(resolver, path.join(dir, "vendor/a.ts")), ["root"]);
+  });
+
+  it("loads those of the configs above the plugin root", () => {
+    const dir = project(files);
+    const resolver = createConfigResolver({ pluginRoot: path.join(dir, "vendor/lib") });
+    assert.throws(() => resolver.forFile(path.join(dir, "vendor/a.ts")), /Could not load plugin ".*missing\.js"/);
+  });
+
+  it("loads those of an explicit config file", () => {
+    const dir = project(files);
+    assert.throws(
+      () => createConfigResolver({ configFile: path.join(dir, "vendor", CONFIG_FILE), pluginRoot: dir }),
+      /Could not load plugin ".*missing\.js"/
+    );
+  });
+
+  it("are not loaded by validation below the plugin root", () => {
+    const dir = project(files);
+    assert.deepEqual(validateConfigFile(path.join(dir, "vendor", CONFIG_FILE), { pluginRoot: dir }), []);
+    assert.match(
+      validateConfigFile(path.join(dir, "vendor", CONFIG_FILE), { pluginRoot: path.join(dir, "vendor") })[0].message,
+      /Could not load plugin "\.\/missing\.js"/
+    );
+  });
+});
+
+describe("ignore rules", () => {
+  const root = path.join(os.tmpdir(), "project");
+  const hidden = (entries: Omit<IgnoreEntry, "baseDir">[], variable: string, file: string, now?: Date) =>
+    findIgnoreEntry(
+      entries.map((e) => ({ ...e, baseDir: root })),
+      variable,
+      path.join(root, file),
+      now
+    ) !== undefined;
+
+  it("anchors plain file paths to the config's directory", () => {
+    assert.ok(hidden([{ file: "config.js", plain: true }], "A", "config.js"));
+    assert.ok(!hidden([{ file: "config.js", plain: true }], "A", "src/config.js"));
+    assert.ok(hidden([{ file: "*.test.ts", plain: true }], "A", "src/a.test.ts"));
+  });
+
+  it("matches variable globs and scopes them to files", () => {
+    const entries = [{ variable: "STRIPE_*", file: "test/**", reason: "fixtures" }];
+    assert.ok(hidden(entries, "STRIPE_TEST_KEY", "test/unit/pay.ts"));
+    assert.ok(!hidden(entries, "STRIPE_TEST_KEY", "src/pay.ts"));
+    assert.ok(!hidden(entries, "GITHUB_TOKEN", "test/unit/pay.ts"));
+  });
+
+  it("stops applying after the last day", () => {
+    const entries = [{ variable: "A", reason: "rotating", expires: "2025-06-30" }];
+    assert.ok(hidden(entries, "A", "a.ts", new Date(2025, 5, 30, 23, 0)));
+    assert.ok(!hidden(entries, "A", "a.ts", new Date(2025, 6, 1)));
+  });
+
+  it("drops findings location by location", () => {
+    const dir = project({ [CONFIG_FILE]: config({ ignore: { variables: [], files: ["legacy/"] } }) });
+    const at = (file: string) => ({ file: path.join(dir, file), line: 1, column: 1, snippet: "" });
+    const results: EnvScanResult = { apiKey: { usage: [], suggested: [at("legacy/a.ts"), at("src/a.ts")] } };
+
+    assert.deepEqual(
+      applyIgnoreRules(results, createConfigResolver()).apiKey.suggested.map((s) => path.relative(dir, s.file)),
+      [path.join("src", "a.ts")]
+    );
+  });
+
+  it("are validated", () => {
+    assert.deepEqual(validateConfig(config({ ignore: { variables: [], files: [], rules: [{ variable: "A", reason: "x" }] } })), []);
+    assert.match(
+      validateConfig(config({ ignore: { variables: [], files: [], rules: [{ variable: "A", reason: "x", expires: "soon" }] } })).join(),
+      /"expires" must be a date/
+    );
+  });
+});
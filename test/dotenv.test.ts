@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { formatDotenvValue, parseDotenvValues, setDotenvValues, stripDotenvValues } from "../src/dotenv";
+
+describe("parseDotenvValues", () => {
+  it("handles comments, export, quotes and inline comments", () => {
+    const source = [
+      "# comment",
+      "export A=1",
+      "B = plain value # inline",
+      "C='single # kept'",
+      'D="line\\nbreak"',
+      "E=`back`",
+      'F="multi',
+      'line"',
+      "G= # empty",
+      "H=a#b",
+      "",
+    ].join("\n");
+
+    assert.deepEqual(parseDotenvValues(source), {
+      A: "1",
+      B: "plain value",
+      C: "single # kept",
+      D: "line\nbreak",
+      E: "back",
+      F: "multi\nline",
+      G: "",
+      H: "a#b",
+    });
+  });
+
+  it("interpolates unquoted and double-quoted values only", () => {
+    const source = 'HOST=db\nURL=postgres://${HOST}:${PORT:-5432}\nRAW=\'${HOST}\'\nESC="\\$HOST"\n';
+    assert.deepEqual(parseDotenvValues(source), { HOST: "db", URL: "postgres://db:5432", RAW: "${HOST}", ESC: "$HOST" });
+    assert.equal(parseDotenvValues(source, { interpolate: false }).URL, "postgres://${HOST}:${PORT:-5432}");
+  });
+});
+
+describe("formatDotenvValue", () => {
+  it("quotes only when needed and reads back the same value", () => {
+    assert.equal(formatDotenvValue("abc-123"), "abc-123");
+    assert.equal(formatDotenvValue("a b"), "'a b'");
+    for (const value of ["a b # c", "it's", "two\nlines", 'q"uote\\', "$HOME"]) {
+      assert.equal(parseDotenvValues(`X=${formatDotenvValue(value)}\n`).X, value);
+    }
+  });
+});
+
+describe("setDotenvValues", () => {
+  it("updates keys in place and appends new ones under a comment", () => {
+    const source = "# db\nexport DB_URL= # fill me\nPORT=3000\n";
+    assert.equal(
+      setDotenvValues(source, { DB_URL: "postgres://db", API_KEY: "a b" }, { comment: "Added" }),
+      "# db\nexport DB_URL=postgres://db # fill me\nPORT=3000\n\n# Added\nAPI_KEY='a b'\n"
+    );
+  });
+
+  it("creates a file from nothing", () => {
+    assert.equal(setDotenvValues("", { A: "1" }), "A=1\n");
+  });
+});
+
+describe("stripDotenvValues", () => {
+  it("keeps keys, comments and layout", () => {
+    assert.equal(stripDotenvValues('# c\nA=1\nB="x\ny" # note\n'), "# c\nA=\nB= # note\n");
+  });
+});
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import {
+  KEY_ENV_VAR,
+  decryptEnv,
+  decryptedPath,
+  encryptEnv,
+  encryptedPath,
+  findEncryptedEnvFiles,
+  generateKey,
+  loadKey,
+  parseKey,
+  readEncryptedDotenv,
+  rotateKey,
+  saveKey,
+} from "../src/encryption";
+
+const newKey = (source = "test") => parseKey(generateKey(), source);
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "env-guardian-test-"));
+}
+
+describe("parseKey", () => {
+  it("accepts 32 bytes as base64 or hex", () => {
+    const base64 = generateKey();
+    const hex = Buffer.from(base64, "base64").toString("hex");
+    assert.equal(parseKey(base64, "a").id, parseKey(hex, "b").id);
+  });
+
+  it("rejects keys of the wrong size", () => {
+    assert.throws(() => parseKey("c2hvcnQ=", ".env.key"), /\.env\.key doesn't contain a valid key/);
+  });
+});
+
+describe("encryptEnv / decryptEnv", () => {
+  it("round-trips the plaintext without leaking it", () => {
+    const key = newKey();
+    const plaintext = "API_KEY=sk_live_abcdefghijklmnop\nPORT=3000\n";
+    const encrypted = encryptEnv(plaintext, key);
+
+    assert.ok(!encrypted.includes("sk_live_"));
+    assert.equal(decryptEnv(encrypted, key), plaintext);
+  });
+
+  it("uses a fresh IV for every encryption", () => {
+    const key = newKey();
+    assert.notEqual(encryptEnv("A=1", key), encryptEnv("A=1", key));
+  });
+
+  it("names the key a file needs when another key is used", () => {
+    const key = newKey();
+    const other = newKey("ENV_GUARDIAN_KEY");
+    assert.throws(() => decryptEnv(encryptEnv("A=1", key), other), new RegExp(`encrypted with key ${key.id}`));
+  });
+
+  it("detects tampering", () => {
+    const key = newKey();
+    const lines = encryptEnv("A=1", key).split("\n");
+    const parts = lines[1].split(":");
+    const ciphertext = Buffer.from(parts[parts.length - 1], "base64");
+    ciphertext[0] ^= 1;
+    parts[parts.length - 1] = ciphertext.toString("base64");
+    lines[1] = parts.join(":");
+
+    assert.throws(() => decryptEnv(lines.join("\n"), key), /modified or corrupted/);
+  });
+
+  it("rejects files it didn't write", () => {
+    assert.throws(() => decryptEnv("A=1\n", newKey()), /not an env-guardian encrypted file/);
+  });
+});
+
+describe("key files", () => {
+  it("prefers ENV_GUARDIAN_KEY over the key file", () => {
+    const dir = tempDir();
+    const keyFile = path.join(dir, ".env.key");
+    const fromFile = generateKey();
+    const fromEnv = generateKey();
+    saveKey(keyFile, fromFile);
+
+    assert.equal(loadKey({ keyFile, env: {} })?.id, parseKey(fromFile, "").id);
+    assert.equal(loadKey({ keyFile, env: { [KEY_ENV_VAR]: fromEnv } })?.source, KEY_ENV_VAR);
+    assert.equal(loadKey({ keyFile: path.join(dir, "missing"), env: {} }), undefined);
+  });
+
+  it("saves keys readable only by their owner", { skip: process.platform === "win32" }, () => {
+    const keyFile = path.join(tempDir(), ".env.key");
+    saveKey(keyFile, generateKey());
+    assert.equal(fs.statSync(keyFile).mode & 0o777, 0o600);
+  });
+});
+
+describe("encrypted files", () => {
+  it("maps between plaintext and encrypted paths", () => {
+    assert.equal(encryptedPath(".env.production"), ".env.production.enc");
+    assert.equal(decryptedPath(".env.production.enc"), ".env.production");
+    assert.equal(decryptedPath("secrets"), "secrets.decrypted");
+  });
+
+  it("finds encrypted env files and reads their variables", () => {
+    const dir = tempDir();
+    const key = newKey();
+    fs.writeFileSync(path.join(dir, ".env.enc"), encryptEnv("HOST=db\nURL=postgres://${HOST}\n", key));
+    fs.writeFileSync(path.join(dir, ".env"), "A=1\n");
+
+    const files = findEncryptedEnvFiles(dir);
+    assert.deepEqual(files, [path.join(dir, ".env.enc")]);
+    assert.deepEqual(readEncryptedDotenv(files[0], key), { HOST: "db", URL: "postgres://db" });
+  });
+
+  it("rotates every file to the new key, or none when one can't be opened", () => {
+    const dir = tempDir();
+    const oldKey = newKey();
+    const a = path.join(dir, ".env.enc");
+    const b = path.join(dir, ".env.production.enc");
+    fs.writeFileSync(a, encryptEnv("A=1\n", oldKey));
+    fs.writeFileSync(b, encryptEnv("B=2\n", newKey()));
+
+    assert.throws(() => rotateKey([a, b], oldKey, newKey()), /\.env\.production\.enc/);
+    assert.equal(decryptEnv(fs.readFileSync(a, "utf-8"), oldKey), "A=1\n");
+
+    const rotated = newKey();
+    rotateKey([a], oldKey, rotated);
+    assert.equal(decryptEnv(fs.readFileSync(a, "utf-8"), rotated), "A=1\n");
+  });
+});
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { applyEdits, editsByFile, planFixes, renderFixDiff, toUpperSnakeCase } from "../src/fix";
+import { EnvScanResult, redactValue } from "../src/index";
+
+const SECRET = "sk_live_abcdefghijklmnop";
+
+/**
+ * Writes `source` to a temp file and fixes the hardcoded SECRET on its `line`.
+ */
+function fix(name: string, source: string, line: number, existingEnv: Record<string, string> = {}) {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "env-guardian-test-"));
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, source);
+  const results: EnvScanResult = {
+    apiKey: { usage: [], suggested: [{ file, line, column: 1, snippet: "", value: SECRET, rule: "stripe-secret-key" }] },
+  };
+  const plan = planFixes(results, existingEnv);
+  const edits = editsByFile(plan).get(file) ?? [];
+  return { dir, plan, fixed: applyEdits(file, source, edits) };
+}
+
+describe("toUpperSnakeCase", () => {
+  it("normalizes variable names", () => {
+    assert.equal(toUpperSnakeCase("apiKey"), "API_KEY");
+    assert.equal(toUpperSnakeCase("stripe-secret"), "STRIPE_SECRET");
+    assert.equal(toUpperSnakeCase("2fa"), "_2FA");
+  });
+});
+
+describe("planFixes", () => {
+  it("replaces the literal and collects the variable", () => {
+    const { plan, fixed } = fix("a.ts", `const key = "${SECRET}";\n`, 1);
+    assert.equal(fixed, "const key = process.env.API_KEY;\n");
+    assert.deepEqual(plan.envVars, { API_KEY: SECRET });
+  });
+
+  it("skips values that conflict with the env file and fills empty ones", () => {
+    assert.deepEqual(fix("a.ts", `const key = "${SECRET}";\n`, 1, { API_KEY: "other" }).plan.skipped.map((s) => s.reason), [
+      "API_KEY already holds a different value",
+    ]);
+    assert.deepEqual(fix("a.ts", `const key = "${SECRET}";\n`, 1, { API_KEY: "" }).plan.envVars, { API_KEY: SECRET });
+  });
+
+  it("skips env files and languages without a known lookup", () => {
+    assert.equal(fix(".env", `API_KEY=${SECRET}\n`, 1).plan.edits.length, 0);
+    assert.match(fix("a.lua", `key = "${SECRET}"\n`, 1).plan.skipped[0].reason, /no env lookup known for \.lua/);
+  });
+});
+
+describe("applyEdits in Python", () => {
+  it("adds import os at the top", () => {
+    assert.equal(fix("a.py", `KEY = "${SECRET}"\n`, 1).fixed, 'import os\nKEY = os.environ["API_KEY"]\n');
+  });
+
+  it("keeps an existing import", () => {
+    assert.equal(fix("a.py", `import sys, os\nKEY = "${SECRET}"\n`, 2).fixed, 'import sys, os\nKEY = os.environ["API_KEY"]\n');
+  });
+
+  it("adds it after the shebang and the encoding line", () => {
+    const source = `#!/usr/bin/env python3\n# -*- coding: utf-8 -*-\nKEY = "${SECRET}"\n`;
+    assert.equal(
+      fix("a.py", source, 3).fixed,
+      '#!/usr/bin/env python3\n# -*- coding: utf-8 -*-\nimport os\nKEY = os.environ["API_KEY"]\n'
+    );
+  });
+
+  it("adds it after the module docstring", () => {
+    assert.equal(
+      fix("a.py", `"""Settings."""\nKEY = "${SECRET}"\n`, 2).fixed,
+      '"""Settings."""\nimport os\nKEY = os.environ["API_KEY"]\n'
+    );
+    assert.equal(
+      fix("a.py", `"""\nSettings.\n"""\n\nKEY = "${SECRET}"\n`, 5).fixed,
+      '"""\nSettings.\n"""\nimport os\n\nKEY = os.environ["API_KEY"]\n'
+    );
+  });
+
+  it("adds it after __future__ imports", () => {
+    const source = `"""Settings."""\n\nfrom __future__ import annotations\nfrom __future__ import (\n    division,\n)\nKEY = "${SECRET}"\n`;
+    assert.equal(
+      fix("a.py", source, 7).fixed,
+      '"""Settings."""\n\nfrom __future__ import annotations\nfrom __future__ import (\n    division,\n)\nimport os\nKEY = os.environ["API_KEY"]\n'
+    );
+  });
+});
+
+describe("applyEdits in Go", () => {
+  it("adds os to the import block in order", () => {
+    const source = `package main\n\nimport (\n\t"fmt"\n\t"strings"\n)\n\nvar key = "${SECRET}"\n`;
+    assert.equal(
+      fix("main.go", source, 8).fixed,
+      'package main\n\nimport (\n\t"fmt"\n\t"os"\n\t"strings"\n)\n\nvar key = os.Getenv("API_KEY")\n'
+    );
+  });
+
+  it("turns a single import into a block", () => {
+    assert.equal(
+      fix("main.go", `package main\n\nimport "fmt"\n\nvar key = "${SECRET}"\n`, 5).fixed,
+      'package main\n\nimport (\n\t"fmt"\n\t"os"\n)\n\nvar key = os.Getenv("API_KEY")\n'
+    );
+  });
+
+  it("adds an import after the package clause", () => {
+    assert.equal(
+      fix("main.go", `package main\n\nvar key = "${SECRET}"\n`, 3).fixed,
+      'package main\n\nimport "os"\n\nvar key = os.Getenv("API_KEY")\n'
+    );
+  });
+
+  it("keeps an existing import", () => {
+    const source = `package main\n\nimport (\n\t"os"\n)\n\nvar key = "${SECRET}"\n`;
+    assert.equal(fix("main.go", source, 7).fixed, source.replace(`"${SECRET}"`, 'os.Getenv("API_KEY")'));
+  });
+});
+
+describe("renderFixDiff", () => {
+  it("shows the added import and the redacted lines", () => {
+    const { dir, plan } = fix("main.go", `package main\n\nimport "fmt"\n\nvar key = "${SECRET}"\n`, 5);
+    const diff = renderFixDiff(plan, dir);
+
+    assert.ok(!diff.includes(SECRET));
+    assert.deepEqual(diff.split("\n").slice(2), [
+      "@@ -3,1 +3,4 @@",
+      '-import "fmt"',
+      "+import (",
+      '+\t"fmt"',
+      '+\t"os"',
+      "+)",
+      "@@ -5 +8 @@",
+      `-var key = "${redactValue(SECRET)}"`,
+      '+var key = os.Getenv("API_KEY")',
+    ]);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { getChangedFilesSince, getStagedFiles } from "../src/git";
+
+function repo(): { dir: string; git: (...args: string[]) => void } {
+  const dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), "env-guardian-test-")));
+  const git = (...args: string[]) => {
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], { cwd: dir, stdio: "pipe" });
+  };
+  git("init", "-q");
+  fs.writeFileSync(path.join(dir, "old.ts"), "export const a = 1;\n");
+  git("add", ".");
+  git("commit", "-q", "-m", "initial");
+  return { dir, git };
+}
+
+const all = () => true;
+
+describe("getStagedFiles", () => {
+  it("reads the staged contents, not the working tree", () => {
+    const { dir, git } = repo();
+    fs.writeFileSync(path.join(dir, "new.ts"), "staged\n");
+    git("add", "new.ts");
+    fs.writeFileSync(path.join(dir, "new.ts"), "unstaged\n");
+
+    assert.deepEqual(getStagedFiles(dir, all), [{ file: path.join(dir, "new.ts"), content: "staged\n" }]);
+  });
+});
+
+describe("getChangedFilesSince", () => {
+  it("returns changed and untracked files", () => {
+    const { dir } = repo();
+    fs.writeFileSync(path.join(dir, "old.ts"), "export const a = 2;\n");
+    fs.writeFileSync(path.join(dir, "new.ts"), "x\n");
+
+    assert.deepEqual(
+      getChangedFilesSince("HEAD", dir, all)
+        .map((f) => path.basename(f.file))
+        .sort(),
+      ["new.ts", "old.ts"]
+    );
+  });
+
+  it("rejects refs git would read as options, and unknown refs", () => {
+    const { dir } = repo();
+    assert.throws(() => getChangedFilesSince("--output=/tmp/x", dir, all), /can't start with "-"/);
+    assert.throws(() => getChangedFilesSince("no-such-branch", dir, all), /unknown ref "no-such-branch"/);
+  });
+});
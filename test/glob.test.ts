@@ -0,0 +1,51 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { globToRegExp, matchesGlob } from "../src/glob";
+
+describe("matchesGlob", () => {
+  it("matches patterns without a slash at any depth", () => {
+    assert.ok(matchesGlob("a.test.ts", ["*.test.ts"]));
+    assert.ok(matchesGlob("src/deep/a.test.ts", ["*.test.ts"]));
+    assert.ok(!matchesGlob("src/a.ts", ["*.test.ts"]));
+  });
+
+  it("anchors patterns with a slash to the root", () => {
+    assert.ok(matchesGlob("src/a.ts", ["src/*.ts"]));
+    assert.ok(!matchesGlob("lib/src/a.ts", ["src/*.ts"]));
+    assert.ok(matchesGlob("config.js", ["/config.js"]));
+    assert.ok(!matchesGlob("sub/config.js", ["/config.js"]));
+  });
+
+  it("keeps * and ? within a path segment and lets ** cross them", () => {
+    assert.ok(!matchesGlob("src/a/b.ts", ["src/*.ts"]));
+    assert.ok(matchesGlob("src/a/b.ts", ["src/**/*.ts"]));
+    assert.ok(matchesGlob("src/b.ts", ["src/**/*.ts"]));
+    assert.ok(matchesGlob("a1.ts", ["a?.ts"]));
+    assert.ok(!matchesGlob("a/.ts", ["a?.ts"]));
+  });
+
+  it("matches everything inside a matching directory", () => {
+    assert.ok(matchesGlob("fixtures/keys/a.json", ["fixtures"]));
+    assert.ok(matchesGlob("dist/index.js", ["dist/"]));
+    assert.ok(matchesGlob("packages/api/__tests__/a.ts", ["**/__tests__/**"]));
+  });
+
+  it("supports braces and character classes", () => {
+    assert.ok(matchesGlob("a.js", ["*.{js,ts}"]));
+    assert.ok(matchesGlob("a.ts", ["*.{js,ts}"]));
+    assert.ok(!matchesGlob("a.py", ["*.{js,ts}"]));
+    assert.ok(matchesGlob("v1.txt", ["v[0-9].txt"]));
+    assert.ok(!matchesGlob("v1.txt", ["v[!0-9].txt"]));
+  });
+
+  it("normalizes Windows separators and a leading ./", () => {
+    assert.ok(matchesGlob("src\\a.ts", ["src/*.ts"]));
+    assert.ok(matchesGlob("./src/a.ts", ["./src/*.ts"]));
+  });
+
+  it("escapes regex characters in literal text", () => {
+    assert.ok(matchesGlob("a+b.js", ["a+b.js"]));
+    assert.ok(!matchesGlob("aab.js", ["a+b.js"]));
+    assert.equal(globToRegExp("a.js"), globToRegExp("a.js"));
+  });
+});
@@ -0,0 +1,143 @@
+import assert from "node:assert/strict";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { EnvScanResult } from "../src/index";
+import { toHtmlReport, toJsonReport, toMarkdownReport, toSarifReport } from "../src/report";
+
+const ROOT = path.join(os.tmpdir(), "project");
+const SECRET = "sk_live_abcdefghijklmnop";
+
+const results: EnvScanResult = {
+  stripeKey: {
+    usage: [],
+    suggested: [
+      {
+        file: path.join(ROOT, "src", "pay.ts"),
+        line: 3,
+        column: 7,
+        snippet: 'const stripeKey = "sk_l****************";',
+        value: SECRET,
+        severity: "CRITICAL",
+        rule: "stripe-secret-key",
+        confidence: "high",
+      },
+    ],
+    suppressed: [
+      {
+        file: path.join(ROOT, "test", "pay.test.ts"),
+        line: 2,
+        column: 1,
+        snippet: "",
+        severity: "CRITICAL",
+        rule: "stripe-secret-key",
+        suppression: { kind: "ignore-next-line", line: 1, rules: [], reason: "fixture" },
+      },
+    ],
+  },
+  DATABASE_URL: {
+    usage: [{ file: path.join(ROOT, "src", "db.ts"), line: 1, column: 14, snippet: "process.env.DATABASE_URL" }],
+    suggested: [],
+  },
+};
+
+describe("toJsonReport", () => {
+  it("lists variables by name with relative paths and redacted values", () => {
+    const report = JSON.parse(toJsonReport(results, ROOT));
+
+    assert.ok(!JSON.stringify(report).includes(SECRET));
+    assert.deepEqual(
+      report.variables.map((v: { name: string; severity: string | null }) => [v.name, v.severity]),
+      [
+        ["DATABASE_URL", null],
+        ["stripeKey", "CRITICAL"],
+      ]
+    );
+    assert.equal(report.variables[1].suggested[0].file, "src/pay.ts");
+    assert.equal(report.variables[1].suggested[0].valueRedacted, true);
+    assert.deepEqual(report.summary, {
+      variables: 2,
+      usages: 1,
+      suggestions: 1,
+      suppressed: 1,
+      bySeverity: { LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 1 },
+    });
+    assert.equal(report.suppressed, undefined);
+  });
+
+  it("adds suppressed findings and the baseline comparison on request", () => {
+    const report = JSON.parse(
+      toJsonReport(results, ROOT, {
+        showSuppressed: true,
+        baseline: { suppressed: 2, stale: [{ fingerprint: "x", variable: "old", file: "a.ts", rule: "r" }] },
+      })
+    );
+    assert.equal(report.suppressed[0].reason, "fixture");
+    assert.deepEqual(report.baseline, { suppressed: 2, stale: [{ variable: "old", file: "a.ts", rule: "r", severity: null }] });
+  });
+});
+
+describe("toSarifReport", () => {
+  it("writes a SARIF 2.1.0 log with rule indexes and GitHub severities", () => {
+    const log = JSON.parse(toSarifReport(results, ROOT));
+    const run = log.runs[0];
+    const result = run.results[0];
+
+    assert.equal(log.version, "2.1.0");
+    assert.equal(run.results.length, 1);
+    assert.equal(run.tool.driver.rules[result.ruleIndex].id, "stripe-secret-key");
+    assert.equal(result.level, "error");
+    assert.equal(result.properties["security-severity"], "9.5");
+    assert.deepEqual(result.locations[0].physicalLocation.artifactLocation, { uri: "src/pay.ts", uriBaseId: "SRCROOT" });
+    assert.ok(run.originalUriBaseIds.SRCROOT.uri.startsWith("file://"));
+    assert.ok(!JSON.stringify(log).includes(SECRET));
+  });
+
+  it("marks suppressed findings and baselined runs", () => {
+    const run = JSON.parse(toSarifReport(results, ROOT, { showSuppressed: true, baseline: { suppressed: 0, stale: [] } })).runs[0];
+    assert.deepEqual(
+      run.results.map((r: { baselineState: string; suppressions?: unknown[] }) => [r.baselineState, r.suppressions]),
+      [
+        ["new", undefined],
+        ["new", [{ kind: "inSource", justification: "fixture" }]],
+      ]
+    );
+  });
+});
+
+describe("toHtmlReport", () => {
+  it("renders a self-contained page with escaped snippets", () => {
+    const html = toHtmlReport(
+      { ...results, xss: { usage: [], suggested: [{ ...results.stripeKey.suggested[0], snippet: "<script>alert(1)</script>" }] } },
+      ROOT
+    );
+
+    assert.ok(html.startsWith("<!DOCTYPE html>"));
+    assert.ok(!/<(?:link|script)[^>]+(?:href|src)=/.test(html));
+    assert.ok(html.includes("&lt;script&gt;alert(1)&lt;/script&gt;"));
+    assert.ok(!html.includes(SECRET));
+    assert.match(html, /<tr data-severity="CRITICAL">/);
+    assert.match(html, /1 finding\(s\) suppressed by env-guardian-ignore comments/);
+  });
+});
+
+describe("toMarkdownReport", () => {
+  it("summarizes counts and findings", () => {
+    const markdown = toMarkdownReport(results, ROOT);
+
+    assert.match(markdown, /\| 🔴 CRITICAL \| 1 \|/);
+    assert.match(markdown, /\| 🔴 CRITICAL \| `stripeKey` \| `src\/pay.ts:3` \| `stripe-secret-key` \|/);
+    assert.match(markdown, /Environment variables in use \(1\)/);
+  });
+
+  it("stays under GitHub's comment size limit with whole table rows", () => {
+    const many: EnvScanResult = {};
+    for (let i = 0; i < 2000; i++) {
+      many[`secret${i}`] = { usage: [], suggested: [{ ...results.stripeKey.suggested[0], file: path.join(ROOT, `src/file${i}.ts`) }] };
+    }
+    const markdown = toMarkdownReport(many, ROOT);
+
+    assert.ok(markdown.length <= 60_000);
+    assert.ok(markdown.split("\n").filter((l) => l.startsWith("| 🔴")).every((l) => l.endsWith("|")));
+  });
+});
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { EnvSchema, assertEnv, environmentOf, loadEnvSchema, validateEnv, validateEnvSchema } from "../src/schema";
+
+const schema: EnvSchema = {
+  variables: {
+    DATABASE_URL: { type: "url", required: true },
+    PORT: { type: "port", default: 3000 },
+    WORKERS: { type: "number", min: 1, max: 8 },
+    LOG_LEVEL: { type: "enum", values: ["debug", "info", "error"] },
+    ADMIN_EMAIL: { type: "email" },
+    DEBUG: { type: "boolean" },
+    REGION: { type: "regex", pattern: "^[a-z]{2}-[a-z]+-\\d$" },
+    SENTRY_DSN: { required: ["production"] },
+  },
+};
+
+describe("validateEnv", () => {
+  it("converts values to their types and applies defaults", () => {
+    const result = validateEnv(
+      { DATABASE_URL: "postgres://localhost:5432/app", WORKERS: "4", DEBUG: "yes", REGION: "eu-west-1" },
+      schema
+    );
+    assert.deepEqual(result.violations, []);
+    assert.deepEqual(result.values, {
+      DATABASE_URL: "postgres://localhost:5432/app",
+      PORT: 3000,
+      WORKERS: 4,
+      DEBUG: true,
+      REGION: "eu-west-1",
+    });
+    assert.ok(result.valid);
+  });
+
+  it("reports missing and malformed values without echoing them", () => {
+    const result = validateEnv(
+      {
+        DATABASE_URL: "localhost:5432",
+        PORT: "70000",
+        WORKERS: "9",
+        LOG_LEVEL: "verbose",
+        ADMIN_EMAIL: "admin",
+        DEBUG: "maybe",
+        REGION: "mars",
+      },
+      schema
+    );
+    assert.ok(!result.valid);
+    assert.deepEqual(
+      result.violations.map((v) => v.key),
+      ["DATABASE_URL", "PORT", "WORKERS", "LOG_LEVEL", "ADMIN_EMAIL", "DEBUG", "REGION"]
+    );
+    assert.ok(result.violations.every((v) => !v.reason.includes("70000") && !v.reason.includes("mars")));
+  });
+
+  it("treats empty values as missing", () => {
+    const result = validateEnv({ DATABASE_URL: "" }, schema);
+    assert.deepEqual(result.violations, [{ key: "DATABASE_URL", reason: "is required" }]);
+  });
+
+  it("only requires environment-specific variables in that environment", () => {
+    const env = { DATABASE_URL: "https://db.example.com" };
+    assert.ok(validateEnv(env, schema, { environment: "development" }).valid);
+    assert.deepEqual(validateEnv(env, schema, { environment: "production" }).violations, [
+      { key: "SENTRY_DSN", reason: "is required in production" },
+    ]);
+  });
+});
+
+describe("validateEnvSchema", () => {
+  it("accepts a valid schema", () => {
+    assert.deepEqual(validateEnvSchema({ $schema: "./x.json", ...schema }), []);
+  });
+
+  it("lists every problem", () => {
+    const issues = validateEnvSchema({
+      extra: true,
+      variables: {
+        A: { type: "uuid" },
+        B: { type: "enum" },
+        C: { type: "regex", pattern: "(" },
+        D: { type: "string", min: 1 },
+        E: { type: "port", default: 0 },
+        F: { required: "yes", color: "red" },
+      },
+    });
+    assert.deepEqual(issues, [
+      'unknown key "extra"',
+      "A: \"type\" must be one of: string, number, port, url, email, enum, boolean, regex",
+      'B: an enum needs "values", a non-empty array of strings',
+      'C: a regex needs a valid "pattern"',
+      'D: "min" must be a number and only applies to numbers',
+      'E: "default" must be a port number (1-65535)',
+      'F: unknown key "color" (expected one of: type, required, default, values, pattern, min, max, description)',
+      'F: "required" must be true, false or a list of environments',
+    ]);
+  });
+
+  it("rejects anything but an object with variables", () => {
+    assert.deepEqual(validateEnvSchema([]), ["must be a JSON object"]);
+    assert.equal(validateEnvSchema({}).length, 1);
+  });
+});
+
+describe("loadEnvSchema / assertEnv", () => {
+  it("reads and checks a schema file", () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "env-guardian-test-")), "env.schema.json");
+    fs.writeFileSync(file, '{ "variables": { "DATABASE_URL": { "type": "url", "required": true } } }\n');
+    assert.deepEqual(Object.keys(loadEnvSchema(file).variables), ["DATABASE_URL"]);
+    assert.throws(() => loadEnvSchema(file + ".missing"), /not found/);
+
+    fs.writeFileSync(file, '{ "variables": { "PORT": { "type": "port", "default": "http" } } }\n');
+    assert.throws(() => loadEnvSchema(file), /has errors:\n {2}- PORT: "default" must be a port number/);
+  });
+
+  it("returns typed values or throws listing every problem", () => {
+    assert.deepEqual(assertEnv({ schema, env: { DATABASE_URL: "https://db", WORKERS: "2" } }).WORKERS, 2);
+    assert.throws(
+      () => assertEnv({ schema, env: { NODE_ENV: "production", PORT: "x" } }),
+      /DATABASE_URL: is required\n.*PORT: must be a port number.*\n.*SENTRY_DSN: is required in production/
+    );
+  });
+});
+
+describe("environmentOf", () => {
+  it("reads the environment from env file names", () => {
+    assert.equal(environmentOf(".env.production"), "production");
+    assert.equal(environmentOf("config/.env.staging.local"), "staging");
+    assert.equal(environmentOf(".env.test.enc"), "test");
+    assert.equal(environmentOf(".env"), undefined);
+    assert.equal(environmentOf(".env.local"), undefined);
+    assert.equal(environmentOf(".env.example"), undefined);
+  });
+});
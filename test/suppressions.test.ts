@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { analyzeJavaScript } from "../src/javascript";
+import { findSuppression, parseSuppressions } from "../src/suppressions";
+
+function jsSuppressions(source: string, file = "a.ts") {
+  return parseSuppressions(source, "ts", analyzeJavaScript(file, source).comments);
+}
+
+describe("parseSuppressions", () => {
+  it("reads the three directives with their rules and reason", () => {
+    const s = jsSuppressions(
+      [
+        "// env-guardian-ignore-file suspicious-name",
+        "// env-guardian-ignore-next-line stripe-secret-key, github-token -- test fixture",
+        'const a = "x";',
+        'const b = "y"; /* env-guardian-ignore */',
+      ].join("\n")
+    );
+
+    assert.deepEqual(s.file, [{ kind: "ignore-file", line: 1, rules: ["suspicious-name"], reason: undefined }]);
+    assert.deepEqual(s.lines.get(3), [
+      { kind: "ignore-next-line", line: 2, rules: ["stripe-secret-key", "github-token"], reason: "test fixture" },
+    ]);
+    assert.equal(s.lines.get(4)?.[0].kind, "ignore");
+  });
+
+  it("ignores directives inside JS strings, templates and regexes", () => {
+    const s = jsSuppressions(
+      [
+        'const a = "// env-guardian-ignore-file";',
+        "const b = `/* env-guardian-ignore */`; // env-guardian-ignore -- real",
+        "const c = /\\/\\/ env-guardian-ignore/;",
+      ].join("\n")
+    );
+
+    assert.deepEqual(s.file, []);
+    assert.deepEqual([...s.lines.keys()], [2]);
+    assert.equal(s.lines.get(2)?.[0].reason, "real");
+  });
+
+  it("finds comments inside JSX", () => {
+    const s = jsSuppressions("const d = <div>{/* env-guardian-ignore */}</div>;", "a.tsx");
+    assert.deepEqual([...s.lines.keys()], [1]);
+  });
+
+  it("ignores directives inside strings in line-based languages", () => {
+    const s = parseSuppressions(
+      ['x = "# env-guardian-ignore-file"', "y = 'a' # env-guardian-ignore -- ok", 'z = "it\\"s" # env-guardian-ignore'].join("\n"),
+      "py"
+    );
+
+    assert.deepEqual(s.file, []);
+    assert.deepEqual([...s.lines.keys()], [2, 3]);
+  });
+
+  it("only accepts the comment syntax of the language", () => {
+    assert.equal(parseSuppressions("x = 1 // env-guardian-ignore", "py").lines.size, 0);
+    assert.equal(parseSuppressions('{ "a": "# env-guardian-ignore" }', "json").lines.size, 0);
+  });
+});
+
+describe("findSuppression", () => {
+  it("matches the line or the whole file, limited to the listed rules", () => {
+    const s = jsSuppressions("// env-guardian-ignore-next-line github-token\nconst a = 1;\n");
+
+    assert.equal(findSuppression(s, 2, "github-token")?.kind, "ignore-next-line");
+    assert.equal(findSuppression(s, 2, "stripe-secret-key"), undefined);
+    assert.equal(findSuppression(s, 3, "github-token"), undefined);
+  });
+});